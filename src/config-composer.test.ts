@@ -0,0 +1,360 @@
+import { test, describe, beforeEach, afterEach } from "node:test";
+import { strict as assert } from "node:assert";
+import { writeFileSync, mkdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { composeConfig } from "./config-composer.js";
+import { loadConfig } from "./config.js";
+
+const testDir = join(tmpdir(), "config-composer-test-" + Date.now());
+
+function writeConfig(name: string, content: string): string {
+  const filePath = join(testDir, name);
+  mkdirSync(join(filePath, ".."), { recursive: true });
+  writeFileSync(filePath, content, "utf-8");
+  return filePath;
+}
+
+describe("composeConfig", () => {
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("returns a single config without sources", () => {
+    const path = writeConfig(
+      "config.yaml",
+      `
+files:
+  config.json:
+    content:
+      key: value
+repos:
+  - git: git@github.com:org/repo.git
+`,
+    );
+
+    const result = composeConfig(path);
+    assert.deepEqual(result.config, {
+      files: { "config.json": { content: { key: "value" } } },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    });
+    assert.equal(result.sources, undefined);
+  });
+
+  test("merges files and repos from a parent config", () => {
+    const base = writeConfig(
+      "platform/base.yaml",
+      `
+files:
+  .prettierrc.json:
+    content:
+      semi: false
+repos:
+  - git: git@github.com:org/platform.git
+`,
+    );
+    const team = writeConfig(
+      "team.yaml",
+      `
+extends: ./platform/base.yaml
+repos:
+  - git: git@github.com:org/team-app.git
+`,
+    );
+
+    const result = composeConfig(team);
+    assert.deepEqual(Object.keys(result.config.files), [".prettierrc.json"]);
+    assert.deepEqual(
+      result.config.repos.map((r) => r.git),
+      ["git@github.com:org/platform.git", "git@github.com:org/team-app.git"],
+    );
+    assert.equal(result.config.extends, undefined);
+    assert.deepEqual(result.sources, {
+      files: { ".prettierrc.json": base },
+      repos: [base, team],
+    });
+  });
+
+  test("extending config replaces file definitions with the same name", () => {
+    writeConfig(
+      "base.yaml",
+      `
+files:
+  config.json:
+    content:
+      from: base
+  other.json:
+    content: {}
+`,
+    );
+    const child = writeConfig(
+      "child.yaml",
+      `
+extends: base.yaml
+files:
+  config.json:
+    content:
+      from: child
+repos:
+  - git: git@github.com:org/repo.git
+`,
+    );
+
+    const result = composeConfig(child);
+    assert.deepEqual(result.config.files["config.json"], {
+      content: { from: "child" },
+    });
+    assert.deepEqual(Object.keys(result.config.files), [
+      "config.json",
+      "other.json",
+    ]);
+    assert.equal(result.sources?.files["config.json"], child);
+  });
+
+  test("merges root vars key by key", () => {
+    writeConfig("base.yaml", "vars:\n  team: platform\n  tier: 1\n");
+    const child = writeConfig(
+      "child.yaml",
+      "extends: base.yaml\nvars:\n  team: web\n",
+    );
+
+    const result = composeConfig(child);
+    assert.deepEqual(result.config.vars, { team: "web", tier: 1 });
+  });
+
+  test("merges profiles by name and replaces secretSources", () => {
+    writeConfig(
+      "base.yaml",
+      `
+profiles:
+  node:
+    files: {}
+  web:
+    files: {}
+secretSources: [file]
+`,
+    );
+    const child = writeConfig(
+      "child.yaml",
+      `
+extends: base.yaml
+profiles:
+  web:
+    files:
+      config.json:
+        content:
+          web: true
+secretSources: [cmd]
+`,
+    );
+
+    const result = composeConfig(child);
+    assert.deepEqual(result.config.profiles, {
+      node: { files: {} },
+      web: { files: { "config.json": { content: { web: true } } } },
+    });
+    assert.deepEqual(result.config.secretSources, ["cmd"]);
+  });
+
+  test("reports unknown root keys from any document", () => {
+    writeConfig("base.yaml", "varz:\n  team: web\n");
+    const child = writeConfig("child.yaml", "extends: base.yaml\n");
+
+    assert.throws(
+      () => composeConfig(child),
+      /varz unknown key 'varz' \(did you mean 'vars'\?\)/,
+    );
+  });
+
+  test("merges multiple parents in listed order", () => {
+    writeConfig("a.yaml", "repos:\n  - git: git@github.com:org/a.git\n");
+    writeConfig("b.yaml", "repos:\n  - git: git@github.com:org/b.git\n");
+    const child = writeConfig(
+      "child.yaml",
+      `
+extends:
+  - a.yaml
+  - b.yaml
+files:
+  config.json:
+    content: {}
+`,
+    );
+
+    const result = composeConfig(child);
+    assert.deepEqual(
+      result.config.repos.map((r) => r.git),
+      ["git@github.com:org/a.git", "git@github.com:org/b.git"],
+    );
+  });
+
+  test("includes a shared ancestor only once", () => {
+    writeConfig("root.yaml", "repos:\n  - git: git@github.com:org/root.git\n");
+    writeConfig("a.yaml", "extends: root.yaml\n");
+    writeConfig("b.yaml", "extends: root.yaml\n");
+    const child = writeConfig(
+      "child.yaml",
+      "extends: [a.yaml, b.yaml]\nfiles:\n  config.json:\n    content: {}\n",
+    );
+
+    const result = composeConfig(child);
+    assert.equal(result.config.repos.length, 1);
+  });
+
+  test("resolves contentFile relative to the config that references it", () => {
+    writeConfig("shared/templates/base.json", '{ "shared": true }');
+    writeConfig(
+      "shared/base.yaml",
+      `
+files:
+  config.json:
+    contentFile: templates/base.json
+`,
+    );
+    const child = writeConfig(
+      "child.yaml",
+      "extends: shared/base.yaml\nrepos:\n  - git: git@github.com:org/repo.git\n",
+    );
+
+    const result = composeConfig(child);
+    assert.deepEqual(result.config.files["config.json"], {
+      content: { shared: true },
+    });
+  });
+
+  test("throws on circular extends", () => {
+    writeConfig("a.yaml", "extends: b.yaml\n");
+    writeConfig("b.yaml", "extends: a.yaml\n");
+
+    assert.throws(
+      () => composeConfig(join(testDir, "a.yaml")),
+      /Circular extends detected: .*a\.yaml -> .*b\.yaml -> .*a\.yaml/,
+    );
+  });
+
+  test("throws when a parent config is missing", () => {
+    const child = writeConfig("child.yaml", "extends: missing.yaml\n");
+
+    assert.throws(
+      () => composeConfig(child),
+      /extends 'missing.yaml' which was not found/,
+    );
+  });
+
+  test("throws when extends is not a path or list of paths", () => {
+    const child = writeConfig("child.yaml", "extends:\n  key: value\n");
+
+    assert.throws(
+      () => composeConfig(child),
+      /child\.yaml:2:3: extends must be a string or an array/,
+    );
+  });
+
+  test("throws with file path when a parent has invalid YAML", () => {
+    const parent = writeConfig("parent.yaml", "files: [unclosed\n");
+    const child = writeConfig("child.yaml", "extends: parent.yaml\n");
+
+    assert.throws(
+      () => composeConfig(child),
+      (error: Error) =>
+        error.message.includes(`Failed to parse YAML config at ${parent}`),
+    );
+  });
+});
+
+describe("loadConfig with extends", () => {
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("reports the location of a schema error in the defining file", () => {
+    writeConfig(
+      "base.yaml",
+      "files:\n  config.json:\n    content: {}\nrepos:\n  - git: git@github.com:org/repo.git\n",
+    );
+    const team = writeConfig(
+      "team.yaml",
+      "extends: base.yaml\nrepos:\n  - files:\n      config.json: false\n",
+    );
+
+    assert.throws(
+      () => loadConfig(team),
+      (error: Error) =>
+        error.message.includes(
+          `${team}:3:5: repos[0] missing required field: git or discover`,
+        ),
+    );
+  });
+
+  test("names the config file that contributed an invalid file", () => {
+    const base = writeConfig(
+      "base.yaml",
+      "files:\n  config.json:\n    mergeStrategy: invalid\n",
+    );
+    const team = writeConfig(
+      "team.yaml",
+      "extends: base.yaml\nrepos:\n  - git: git@github.com:org/repo.git\n",
+    );
+
+    assert.throws(
+      () => loadConfig(team),
+      (error: Error) =>
+        error.message.includes(
+          `${base}:3:20: files["config.json"].mergeStrategy must be one of`,
+        ),
+    );
+  });
+
+  test("names the config file that contributed an invalid repo", () => {
+    writeConfig(
+      "base.yaml",
+      "files:\n  config.json:\n    content: {}\nrepos:\n  - git: git@github.com:org/repo.git\n",
+    );
+    const team = writeConfig(
+      "team.yaml",
+      "extends: base.yaml\nrepos:\n  - git: git@github.com:org/team.git\n    files:\n      missing.json: false\n",
+    );
+
+    assert.throws(
+      () => loadConfig(team),
+      (error: Error) =>
+        error.message.includes(
+          "Repo at index 1 references undefined file 'missing.json'",
+        ) && error.message.includes(`(defined in ${team})`),
+    );
+  });
+
+  test("reports schema errors from every config file in one pass", () => {
+    const base = writeConfig(
+      "base.yaml",
+      "files:\n  config.json:\n    createOnly: yes please\n",
+    );
+    const team = writeConfig(
+      "team.yaml",
+      "extends: base.yaml\nrepos:\n  - git: 42\n    tags: []\n  - tags: [a]\n",
+    );
+
+    assert.throws(
+      () => loadConfig(team),
+      (error: Error) =>
+        error.message.startsWith("Config validation failed with 3 errors:") &&
+        error.message.includes(
+          `${team}:3:10: repos[0].git must be a string or an array`,
+        ) &&
+        error.message.includes(
+          `${team}:5:5: repos[1] missing required field: git or discover`,
+        ) &&
+        error.message.includes(
+          `${base}:3:17: files["config.json"].createOnly must be a boolean`,
+        ),
+    );
+  });
+});
@@ -0,0 +1,243 @@
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { LineCounter, parseDocument } from "yaml";
+import type { RawConfig, RawFileConfig, RawRepoConfig } from "./config.js";
+import { resolveContentFiles } from "./content-file-resolver.js";
+import { validateConfigDocument } from "./config-schema.js";
+import { formatValidationErrors } from "./config-validator.js";
+import {
+  decryptDocument,
+  encryptedTag,
+  type KeyOptions,
+} from "./encryption.js";
+import { isPlainObject } from "./merge.js";
+
+/**
+ * Records which config file contributed each entry of a composed config.
+ * Used to name the offending file in validation errors.
+ */
+export interface ConfigSources {
+  // File name -> path of the config file whose definition was kept
+  files: Record<string, string>;
+  // Repo index -> path of the config file that defined the repo
+  repos: string[];
+}
+
+// Options for decrypting ENC[...] and !encrypted values
+export type ComposeOptions = KeyOptions;
+
+export interface ComposedConfig {
+  config: RawConfig;
+  // Only set when more than one config file was loaded
+  sources?: ConfigSources;
+}
+
+/**
+ * Reads and parses a single YAML config file and decrypts its encrypted
+ * values. Collects schema errors (with line/column) into errors.
+ */
+function parseConfigFile(
+  filePath: string,
+  errors: string[],
+  options: ComposeOptions,
+): RawConfig {
+  const content = readFileSync(filePath, "utf-8");
+  const lineCounter = new LineCounter();
+  const document = parseDocument(content, {
+    lineCounter,
+    customTags: [encryptedTag],
+  });
+
+  if (document.errors.length > 0) {
+    throw new Error(
+      `Failed to parse YAML config at ${filePath}: ${document.errors[0].message}`,
+    );
+  }
+
+  decryptDocument(document, lineCounter, filePath, options);
+
+  const config = document.toJS() as RawConfig;
+  if (isPlainObject(config)) {
+    errors.push(...validateConfigDocument(document, lineCounter, filePath));
+  }
+  return config;
+}
+
+/**
+ * Normalizes the extends field to an array of paths.
+ */
+function getExtendsList(config: RawConfig, filePath: string): string[] {
+  const value = config.extends;
+  if (value === undefined) return [];
+
+  const list = typeof value === "string" ? [value] : value;
+  if (
+    !Array.isArray(list) ||
+    !list.every((p) => typeof p === "string" && p.length > 0)
+  ) {
+    throw new Error(
+      `Config at ${filePath}: extends must be a path or an array of paths`,
+    );
+  }
+  return list;
+}
+
+/**
+ * Merges a config document on top of the accumulated result.
+ * Files defined later replace earlier definitions with the same name;
+ * repos are appended in order; vars and profiles are merged key by key
+ * and a later secretSources list replaces an earlier one. Malformed values
+ * and unknown root keys are passed through as-is for validateRawConfig to
+ * report.
+ */
+function mergeInto(
+  target: Required<ComposedConfig>,
+  config: RawConfig,
+  filePath: string,
+): void {
+  const {
+    extends: _extends,
+    files,
+    repos,
+    vars,
+    profiles,
+    secretSources,
+    ...unknownKeys
+  } = config;
+  Object.assign(target.config, unknownKeys);
+
+  if (vars !== undefined) {
+    target.config.vars =
+      isPlainObject(target.config.vars) && isPlainObject(vars)
+        ? { ...target.config.vars, ...vars }
+        : vars;
+  }
+  if (profiles !== undefined) {
+    target.config.profiles =
+      isPlainObject(target.config.profiles) && isPlainObject(profiles)
+        ? { ...target.config.profiles, ...profiles }
+        : profiles;
+  }
+  if (secretSources !== undefined) {
+    target.config.secretSources = secretSources;
+  }
+
+  if (isPlainObject(files)) {
+    const merged = isPlainObject(target.config.files)
+      ? target.config.files
+      : {};
+    for (const [fileName, fileConfig] of Object.entries(files)) {
+      merged[fileName] = fileConfig as RawFileConfig;
+      target.sources.files[fileName] = filePath;
+    }
+    target.config.files = merged;
+  } else if (files !== undefined) {
+    target.config.files = files;
+  }
+
+  if (Array.isArray(repos)) {
+    const merged = Array.isArray(target.config.repos)
+      ? target.config.repos
+      : [];
+    for (const repo of repos as RawRepoConfig[]) {
+      merged.push(repo);
+      target.sources.repos.push(filePath);
+    }
+    target.config.repos = merged;
+  } else if (repos !== undefined) {
+    target.config.repos = repos;
+  }
+}
+
+/**
+ * Loads a config file and its extends chain depth-first.
+ * Parents are merged before the file that extends them.
+ */
+function loadInto(
+  target: Required<ComposedConfig>,
+  filePath: string,
+  stack: string[],
+  loaded: Set<string>,
+  errors: string[],
+  options: ComposeOptions,
+): void {
+  if (stack.includes(filePath)) {
+    throw new Error(
+      `Circular extends detected: ${[...stack, filePath].join(" -> ")}`,
+    );
+  }
+
+  // A config reached through several paths (diamond) is only merged once
+  if (loaded.has(filePath)) return;
+
+  const errorCount = errors.length;
+  let config = parseConfigFile(filePath, errors, options);
+  if (config === null || config === undefined) {
+    config = {} as RawConfig;
+  }
+  if (!isPlainObject(config)) {
+    throw new Error(`Config at ${filePath} must be a YAML mapping`);
+  }
+  const isValid = errors.length === errorCount;
+
+  // Parents of an invalid config are still checked, so every schema
+  // error is reported in one pass
+  let parents: string[] = [];
+  try {
+    parents = getExtendsList(config, filePath);
+  } catch (error) {
+    if (isValid) throw error;
+  }
+
+  for (const parent of parents) {
+    const parentPath = resolve(dirname(filePath), parent);
+    if (!existsSync(parentPath)) {
+      throw new Error(
+        `Config at ${filePath} extends '${parent}' which was not found at ${parentPath}`,
+      );
+    }
+    loadInto(target, parentPath, [...stack, filePath], loaded, errors, options);
+  }
+
+  loaded.add(filePath);
+  if (!isValid) return;
+
+  // Content files are resolved relative to the config that references them
+  mergeInto(target, resolveContentFiles(config, filePath), filePath);
+}
+
+/**
+ * Loads a config file, following its `extends` list of local config paths.
+ * Parent configs are merged first, so the extending file can add repos and
+ * replace file definitions. Reports circular extends chains.
+ * Each config file is validated against config-schema.json; all schema
+ * errors across the files are reported together. Encrypted values are
+ * decrypted before validation.
+ *
+ * @param filePath - Path to the top-level config file
+ * @param options - Key file and environment for encrypted values
+ * @returns The composed raw config and, when extends was used, the source
+ *   file of each entry
+ */
+export function composeConfig(
+  filePath: string,
+  options: ComposeOptions = {},
+): ComposedConfig {
+  const target: Required<ComposedConfig> = {
+    config: {} as RawConfig,
+    sources: { files: {}, repos: [] },
+  };
+  const loaded = new Set<string>();
+  const errors: string[] = [];
+
+  loadInto(target, resolve(filePath), [], loaded, errors, options);
+
+  if (errors.length > 0) {
+    throw new Error(formatValidationErrors(errors));
+  }
+
+  if (loaded.size === 1) {
+    return { config: target.config };
+  }
+  return target;
+}
@@ -3,6 +3,8 @@ import { strict as assert } from "node:assert";
 import {
   detectOutputFormat,
   convertContentToString,
+  isStructuredFileName,
+  isTextContent,
   type OutputFormat,
 } from "./config-formatter.js";
 
@@ -279,3 +281,68 @@ describe("convertContentToString JSON ignores comments", () => {
     assert.ok(result.includes('"key"'));
   });
 });
+
+describe("isStructuredFileName", () => {
+  test("returns true for JSON and YAML extensions", () => {
+    assert.equal(isStructuredFileName("config.json"), true);
+    assert.equal(isStructuredFileName("config.yaml"), true);
+    assert.equal(isStructuredFileName("path/to/config.YML"), true);
+  });
+
+  test("returns false for other files", () => {
+    assert.equal(isStructuredFileName(".gitignore"), false);
+    assert.equal(isStructuredFileName(".editorconfig"), false);
+    assert.equal(isStructuredFileName("Dockerfile"), false);
+    assert.equal(isStructuredFileName("json"), false);
+  });
+});
+
+describe("isTextContent", () => {
+  test("returns true for strings and arrays of strings", () => {
+    assert.equal(isTextContent("text"), true);
+    assert.equal(isTextContent(["line1", "line2"]), true);
+    assert.equal(isTextContent([]), true);
+  });
+
+  test("returns false for objects, null and mixed arrays", () => {
+    assert.equal(isTextContent({ key: "value" }), false);
+    assert.equal(isTextContent(null), false);
+    assert.equal(isTextContent(["line", 1]), false);
+  });
+});
+
+describe("convertContentToString with text content", () => {
+  test("string content is written as-is", () => {
+    const result = convertContentToString("node_modules/\ndist/", ".gitignore");
+    assert.equal(result, "node_modules/\ndist/");
+  });
+
+  test("array content is joined with newlines", () => {
+    const result = convertContentToString(
+      ["node_modules/", "dist/"],
+      ".gitignore",
+    );
+    assert.equal(result, "node_modules/\ndist/");
+  });
+
+  test("header is added as comment lines", () => {
+    const result = convertContentToString(["dist/"], ".gitignore", {
+      header: ["Managed by json-config-sync", "Do not edit"],
+    });
+    assert.equal(result, "# Managed by json-config-sync\n# Do not edit\ndist/");
+  });
+
+  test("header only for empty text content", () => {
+    const result = convertContentToString([], ".npmrc", {
+      header: ["Empty"],
+    });
+    assert.equal(result, "# Empty");
+  });
+
+  test("schemaUrl is ignored for text content", () => {
+    const result = convertContentToString("root = true", ".editorconfig", {
+      schemaUrl: "https://example.com/schema.json",
+    });
+    assert.equal(result, "root = true");
+  });
+});
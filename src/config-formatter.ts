@@ -1,6 +1,7 @@
 import { Document, stringify } from "yaml";
+import type { ContentValue } from "./config.js";
 
-export type OutputFormat = "json" | "yaml";
+export type OutputFormat = "json" | "yaml" | "text";
 
 /**
  * Options for content conversion.
@@ -12,6 +13,7 @@ export interface ConvertOptions {
 
 /**
  * Detects output format from file extension.
+ * Text output is selected by content type, not extension (see isTextContent).
  */
 export function detectOutputFormat(fileName: string): OutputFormat {
   const ext = fileName.toLowerCase().split(".").pop();
@@ -21,12 +23,35 @@ export function detectOutputFormat(fileName: string): OutputFormat {
   return "json";
 }
 
+/**
+ * Checks if a file name has a JSON or YAML extension.
+ * Such files require object content; all other files may use text content.
+ */
+export function isStructuredFileName(fileName: string): boolean {
+  const ext = fileName.toLowerCase().split(".").pop();
+  return (
+    fileName.includes(".") &&
+    (ext === "json" || ext === "yaml" || ext === "yml")
+  );
+}
+
+/**
+ * Checks if content is text (a string or array of lines) rather than an object.
+ */
+export function isTextContent(content: unknown): content is string | string[] {
+  return (
+    typeof content === "string" ||
+    (Array.isArray(content) &&
+      content.every((line) => typeof line === "string"))
+  );
+}
+
 /**
  * Builds header comment string from header lines and schemaUrl.
  * Returns undefined if no comments to add.
  * Each line gets a space prefix since yaml library adds # directly.
  */
-function buildHeaderComment(
+export function buildHeaderComment(
   header?: string[],
   schemaUrl?: string,
 ): string | undefined {
@@ -73,14 +98,37 @@ function buildCommentOnlyYaml(
 }
 
 /**
- * Converts content object to string in the appropriate format.
- * Handles null content (empty files) and comments (YAML only).
+ * Builds text file output with header lines as '# ' comments.
+ * schemaUrl is ignored for text files.
+ */
+function buildTextContent(
+  content: string | string[],
+  header?: string[],
+): string {
+  const body = Array.isArray(content) ? content.join("\n") : content;
+
+  if (!header || header.length === 0) {
+    return body;
+  }
+
+  const comments = header.map((h) => `# ${h}`).join("\n");
+  return body.length > 0 ? `${comments}\n${body}` : comments;
+}
+
+/**
+ * Converts content to string in the appropriate format.
+ * Handles null content (empty files), text content (string or lines)
+ * and comments (YAML and text only).
  */
 export function convertContentToString(
-  content: Record<string, unknown> | null,
+  content: ContentValue | null,
   fileName: string,
   options?: ConvertOptions,
 ): string {
+  if (isTextContent(content)) {
+    return buildTextContent(content, options?.header);
+  }
+
   const format = detectOutputFormat(fileName);
 
   // Handle empty file case
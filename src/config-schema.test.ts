@@ -0,0 +1,139 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { LineCounter, parseDocument } from "yaml";
+import { validateConfigDocument } from "./config-schema.js";
+
+function validate(yaml: string): string[] {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(yaml, { lineCounter });
+  return validateConfigDocument(document, lineCounter, "config.yaml");
+}
+
+describe("validateConfigDocument", () => {
+  test("accepts a valid config", () => {
+    const errors = validate(`
+files:
+  config.json:
+    content:
+      key: value
+    mergeStrategy: append
+  .gitignore:
+    content: [node_modules/]
+vars:
+  team: platform
+profiles:
+  library:
+    files:
+      config.json:
+        content:
+          library: true
+        createOnly: true
+repos:
+  - git: git@github.com:org/repo.git
+    profiles: [library]
+    files:
+      config.json: false
+  - discover:
+      github:
+        org: my-org
+`);
+    assert.deepEqual(errors, []);
+  });
+
+  test("does not require files or repos in a single document", () => {
+    assert.deepEqual(validate("vars:\n  team: web\n"), []);
+  });
+
+  test("reports line and column of the offending value", () => {
+    const errors = validate(`files:
+  config.json:
+    content: {}
+    mergeStrategy: merge
+repos:
+  - git: git@github.com:org/repo.git
+`);
+    assert.deepEqual(errors, [
+      'config.yaml:4:20: files["config.json"].mergeStrategy must be one of: replace, append, prepend, unique, union-prepend (got "merge")',
+    ]);
+  });
+
+  test("reports invalid arrayStrategies entries", () => {
+    const errors = validate(`files:
+  config.json:
+    content: {}
+    arrayStrategies:
+      overrides.*.files: unique
+      extends: merge
+repos:
+  - git: git@github.com:org/repo.git
+`);
+    assert.equal(errors.length, 1);
+    assert.match(
+      errors[0],
+      /^config\.yaml:6:16: .*arrayStrategies\.extends must be one of/,
+    );
+  });
+
+  test("reports every error in the document", () => {
+    const errors = validate(`files:
+  config.json:
+    createOnly: "true"
+    header: 3
+repos:
+  - git: []
+  - files: {}
+vars:
+  "bad name": x
+`);
+    assert.deepEqual(errors, [
+      'config.yaml:3:17: files["config.json"].createOnly must be a boolean',
+      'config.yaml:4:13: files["config.json"].header must be a string or an array',
+      "config.yaml:6:10: repos[0].git must not be empty",
+      "config.yaml:7:5: repos[1] missing required field: git or discover",
+      "config.yaml:9:3: vars[\"bad name\"] name 'bad name' must match pattern ^[A-Za-z_][A-Za-z0-9_.-]*$",
+    ]);
+  });
+
+  test("points at the key for unknown discover fields", () => {
+    const errors = validate(`repos:
+  - discover:
+      github:
+        org: my-org
+        archived: true
+`);
+    assert.deepEqual(errors, [
+      "config.yaml:5:9: repos[0].discover.github.archived unknown key 'archived'",
+    ]);
+  });
+
+  test("suggests the closest key for typos", () => {
+    const errors = validate(`files:
+  config.json:
+    content: {}
+    mergStrategy: append
+repos:
+  - git: git@github.com:org/repo.git
+    files:
+      config.json:
+        createonly: true
+reps: []
+`);
+    assert.deepEqual(errors, [
+      "config.yaml:4:5: files[\"config.json\"].mergStrategy unknown key 'mergStrategy' (did you mean 'mergeStrategy'?)",
+      "config.yaml:9:9: repos[0].files[\"config.json\"].createonly unknown key 'createonly' (did you mean 'createOnly'?)",
+      "config.yaml:10:1: reps unknown key 'reps' (did you mean 'repos'?)",
+    ]);
+  });
+
+  test("allows any keys inside content", () => {
+    const errors = validate(`files:
+  config.json:
+    content:
+      $arrayMerge: append
+      mergStrategy: not-a-config-key
+repos:
+  - git: git@github.com:org/repo.git
+`);
+    assert.deepEqual(errors, []);
+  });
+});
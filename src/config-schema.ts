@@ -0,0 +1,108 @@
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { isMap, isScalar, isSeq, type Document, type LineCounter } from "yaml";
+import {
+  validateJsonSchema,
+  formatSchemaPath,
+  type JsonSchema,
+  type SchemaError,
+} from "./json-schema.js";
+
+let cachedSchema: JsonSchema | null | undefined;
+
+/**
+ * Loads config-schema.json from the package root.
+ * Returns null if the schema is not shipped alongside the code.
+ */
+function loadConfigSchema(): JsonSchema | null {
+  if (cachedSchema !== undefined) {
+    return cachedSchema;
+  }
+
+  const __filename = fileURLToPath(import.meta.url);
+  const __dirname = dirname(__filename);
+  const schemaPath = join(__dirname, "..", "config-schema.json");
+
+  cachedSchema = existsSync(schemaPath)
+    ? (JSON.parse(readFileSync(schemaPath, "utf-8")) as JsonSchema)
+    : null;
+  return cachedSchema;
+}
+
+/**
+ * Finds the source offset of the node at path. Falls back to the deepest
+ * node that exists. Unknown-key and key-name errors point at the key.
+ */
+function findOffset(document: Document, error: SchemaError): number {
+  let node: unknown = document.contents;
+  let offset = (node as { range?: number[] } | null)?.range?.[0] ?? 0;
+  const pointsAtKey =
+    error.keyword === "additionalProperties" ||
+    error.keyword === "propertyNames";
+
+  for (let i = 0; i < error.path.length; i++) {
+    const segment = error.path[i];
+
+    if (isMap(node)) {
+      const pair = node.items.find(
+        (p) => isScalar(p.key) && String(p.key.value) === String(segment),
+      );
+      if (!pair || !isScalar(pair.key)) break;
+
+      const keyOffset = pair.key.range?.[0] ?? offset;
+      if (pointsAtKey && i === error.path.length - 1) {
+        return keyOffset;
+      }
+      node = pair.value;
+      offset = (node as { range?: number[] } | null)?.range?.[0] ?? keyOffset;
+    } else if (isSeq(node) && typeof segment === "number") {
+      node = node.items[segment];
+      offset = (node as { range?: number[] } | null)?.range?.[0] ?? offset;
+    } else {
+      break;
+    }
+  }
+
+  return offset;
+}
+
+function formatError(
+  error: SchemaError,
+  document: Document,
+  lineCounter: LineCounter,
+  filePath: string,
+): string {
+  const { line, col } = lineCounter.linePos(findOffset(document, error));
+  const subject =
+    error.path.length > 0 ? `${formatSchemaPath(error.path)} ` : "";
+  return `${filePath}:${line}:${col}: ${subject}${error.message}`;
+}
+
+/**
+ * Validates a parsed config document against config-schema.json.
+ * Root-level required fields are not checked here, since a config may get
+ * files or repos from the configs it extends; validateRawConfig checks them
+ * on the composed config.
+ *
+ * @param document - The parsed YAML document
+ * @param lineCounter - Line counter used when parsing the document
+ * @param filePath - Path of the config file (used in error messages)
+ * @returns One "<file>:<line>:<col>: <path> <message>" entry per error
+ */
+export function validateConfigDocument(
+  document: Document,
+  lineCounter: LineCounter,
+  filePath: string,
+): string[] {
+  const schema = loadConfigSchema();
+  const value: unknown = document.toJS();
+  if (!schema || typeof value !== "object" || value === null) {
+    return [];
+  }
+
+  const { required: _required, anyOf: _anyOf, ...documentSchema } = schema;
+  return validateJsonSchema(value, documentSchema, schema).map((error) =>
+    formatError(error, document, lineCounter, filePath),
+  );
+}
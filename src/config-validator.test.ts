@@ -1,7 +1,12 @@
 import { test, describe } from "node:test";
 import { strict as assert } from "node:assert";
 import { validateRawConfig } from "./config-validator.js";
-import type { RawConfig } from "./config.js";
+import type {
+  RawConfig,
+  RawProfile,
+  RawProfileFileOverlay,
+  RawRepoFileOverride,
+} from "./config.js";
 
 describe("validateRawConfig", () => {
   // Helper to create a minimal valid config
@@ -140,6 +145,15 @@ describe("validateRawConfig", () => {
       assert.doesNotThrow(() => validateRawConfig(config));
     });
 
+    test("allows unique and union-prepend mergeStrategy", () => {
+      for (const mergeStrategy of ["unique", "union-prepend"] as const) {
+        const config = createValidConfig({
+          files: { "config.json": { content: {}, mergeStrategy } },
+        });
+        assert.doesNotThrow(() => validateRawConfig(config));
+      }
+    });
+
     test("throws for invalid mergeStrategy", () => {
       const config = createValidConfig({
         files: {
@@ -569,6 +583,905 @@ describe("validateRawConfig", () => {
     });
   });
 
+  describe("text content validation", () => {
+    test("allows string content for text files", () => {
+      const config = createValidConfig({
+        files: { ".gitignore": { content: "node_modules/" } },
+      });
+      assert.doesNotThrow(() => validateRawConfig(config));
+    });
+
+    test("allows array of strings content for text files", () => {
+      const config = createValidConfig({
+        files: { ".editorconfig": { content: ["root = true", "[*]"] } },
+      });
+      assert.doesNotThrow(() => validateRawConfig(config));
+    });
+
+    test("throws when JSON file has string content", () => {
+      const config = createValidConfig({
+        files: { "config.json": { content: "text" } },
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /File 'config.json' content must be an object/,
+      );
+    });
+
+    test("throws when YAML file has array content", () => {
+      const config = createValidConfig({
+        files: { "config.yaml": { content: ["a", "b"] } },
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /File 'config.yaml' content must be an object/,
+      );
+    });
+
+    test("throws when text file has array with non-string items", () => {
+      const config = createValidConfig({
+        files: {
+          ".gitignore": { content: ["dist/", 42] as unknown as string[] },
+        },
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /content must be an object, a string or an array of strings/,
+      );
+    });
+
+    test("throws when repo override content type differs from root", () => {
+      const config = createValidConfig({
+        files: { ".gitignore": { content: ["dist/"] } },
+        repos: [
+          {
+            git: "git@github.com:org/repo.git",
+            files: { ".gitignore": { content: { key: "value" } } },
+          },
+        ],
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /file '.gitignore' content must be text to merge with the root content/,
+      );
+    });
+
+    test("allows different content type with override: true", () => {
+      const config = createValidConfig({
+        files: { ".gitignore": { content: ["dist/"] } },
+        repos: [
+          {
+            git: "git@github.com:org/repo.git",
+            files: {
+              ".gitignore": { override: true, content: { key: "value" } },
+            },
+          },
+        ],
+      });
+      assert.doesNotThrow(() => validateRawConfig(config));
+    });
+  });
+
+  describe("vars validation", () => {
+    test("allows root and per-repo vars", () => {
+      const config = createValidConfig({
+        vars: { team: "platform", port: 8080, enabled: true },
+        repos: [
+          { git: "git@github.com:org/repo.git", vars: { "sonar.key": "x" } },
+        ],
+      });
+      assert.doesNotThrow(() => validateRawConfig(config));
+    });
+
+    test("throws when vars is not an object", () => {
+      const config = createValidConfig({
+        vars: ["a"] as unknown as Record<string, string>,
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /Config vars must be an object/,
+      );
+    });
+
+    test("throws on invalid var name", () => {
+      const config = createValidConfig({ vars: { "my:var": "x" } });
+      assert.throws(
+        () => validateRawConfig(config),
+        /invalid var name 'my:var'/,
+      );
+    });
+
+    test("throws on reserved repo. prefix", () => {
+      const config = createValidConfig({
+        repos: [
+          { git: "git@github.com:org/repo.git", vars: { "repo.name": "x" } },
+        ],
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /Repo at index 0 var 'repo.name' uses the reserved 'repo.' prefix/,
+      );
+    });
+
+    test("throws on non-scalar var value", () => {
+      const config = createValidConfig({
+        vars: { nested: { a: 1 } } as unknown as Record<string, string>,
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /var 'nested' must be a string, number or boolean/,
+      );
+    });
+  });
+
+  describe("unknown key validation", () => {
+    test("rejects unknown root keys with a suggestion", () => {
+      const config = {
+        ...createValidConfig(),
+        var: { team: "web" },
+      } as RawConfig;
+      assert.throws(
+        () => validateRawConfig(config),
+        /Config has unknown key 'var' \(did you mean 'vars'\?\)/,
+      );
+    });
+
+    test("rejects unknown file config keys", () => {
+      const config = createValidConfig({
+        files: {
+          "config.json": {
+            content: {},
+            mergStrategy: "append",
+          } as RawConfig["files"][string],
+        },
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /File 'config.json' has unknown key 'mergStrategy' \(did you mean 'mergeStrategy'\?\)/,
+      );
+    });
+
+    test("rejects unknown repo keys", () => {
+      const config = createValidConfig({
+        repos: [
+          {
+            git: "git@github.com:org/repo.git",
+            tag: ["a"],
+          } as RawConfig["repos"][number],
+        ],
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /Repo at index 0 has unknown key 'tag' \(did you mean 'tags'\?\)/,
+      );
+    });
+
+    test("rejects unknown repo file override keys", () => {
+      const config = createValidConfig({
+        repos: [
+          {
+            git: "git@github.com:org/repo.git",
+            files: {
+              "config.json": {
+                createonly: true,
+              } as RawRepoFileOverride,
+            },
+          },
+        ],
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /Repo at index 0: file 'config.json' has unknown key 'createonly' \(did you mean 'createOnly'\?\)/,
+      );
+    });
+
+    test("omits the suggestion when no key is close", () => {
+      const config = createValidConfig({
+        files: {
+          "config.json": {
+            content: {},
+            somethingUnrelated: true,
+          } as RawConfig["files"][string],
+        },
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        (error: Error) =>
+          error.message ===
+          "File 'config.json' has unknown key 'somethingUnrelated'",
+      );
+    });
+
+    test("allows any keys, including $ directives, inside content", () => {
+      const config = createValidConfig({
+        files: {
+          "config.json": {
+            content: { $arrayMerge: "append", mergStrategy: "anything" },
+          },
+        },
+      });
+      assert.doesNotThrow(() => validateRawConfig(config));
+    });
+  });
+
+  describe("targets validation", () => {
+    const withTargets = (targets: unknown): RawConfig =>
+      createValidConfig({
+        files: {
+          "tsconfig.json": { content: {}, targets: targets as string[] },
+        },
+      });
+
+    test("allows directory globs", () => {
+      assert.doesNotThrow(() =>
+        validateRawConfig(withTargets(["packages/*/", "apps/*"])),
+      );
+    });
+
+    test("throws on an empty targets array", () => {
+      assert.throws(
+        () => validateRawConfig(withTargets([])),
+        /File 'tsconfig.json' targets must be a non-empty array of non-empty strings/,
+      );
+    });
+
+    test("throws on patterns escaping the repo", () => {
+      assert.throws(
+        () => validateRawConfig(withTargets(["../*/"])),
+        /Invalid targets pattern '..\/\*\/': must be a relative path/,
+      );
+    });
+
+    test("throws when a repo sets path on a file with targets", () => {
+      const config = createValidConfig({
+        files: { "tsconfig.json": { content: {}, targets: ["packages/*/"] } },
+        repos: [
+          {
+            git: "git@github.com:org/repo.git",
+            files: { "tsconfig.json": { path: "other/tsconfig.json" } },
+          },
+        ],
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /file 'tsconfig.json' cannot set path because the file has targets/,
+      );
+    });
+
+    test("throws on vars using the reserved target. prefix", () => {
+      const config = createValidConfig({ vars: { "target.name": "x" } });
+      assert.throws(
+        () => validateRawConfig(config),
+        /var 'target.name' uses the reserved 'target.' prefix \(built-in target variables\)/,
+      );
+    });
+  });
+
+  describe("arrayStrategies validation", () => {
+    const withStrategies = (arrayStrategies: unknown) =>
+      createValidConfig({
+        files: {
+          "config.json": {
+            content: {},
+            arrayStrategies: arrayStrategies as Record<string, "append">,
+          },
+        },
+      });
+
+    test("accepts paths with wildcard segments", () => {
+      assert.doesNotThrow(() =>
+        validateRawConfig(
+          withStrategies({
+            "compilerOptions.lib": "append",
+            "overrides.*.files": "unique",
+          }),
+        ),
+      );
+    });
+
+    test("throws when arrayStrategies is not an object", () => {
+      assert.throws(
+        () => validateRawConfig(withStrategies(["append"])),
+        /File 'config.json' arrayStrategies must map array paths to strategies/,
+      );
+    });
+
+    test("throws for empty path segments", () => {
+      assert.throws(
+        () => validateRawConfig(withStrategies({ "a..b": "append" })),
+        /File 'config.json' arrayStrategies has invalid path 'a..b'/,
+      );
+    });
+
+    test("throws for unknown strategies", () => {
+      assert.throws(
+        () => validateRawConfig(withStrategies({ extends: "merge" })),
+        /File 'config.json' arrayStrategies 'extends' has invalid strategy: merge\. Must be one of: replace, append, prepend, unique, union-prepend/,
+      );
+    });
+  });
+
+  describe("mode validation", () => {
+    test("accepts overwrite and merge", () => {
+      for (const mode of ["overwrite", "merge"] as const) {
+        const config = createValidConfig({
+          files: { "package.json": { content: {}, mode } },
+        });
+        assert.doesNotThrow(() => validateRawConfig(config));
+      }
+    });
+
+    test("throws for an invalid mode", () => {
+      const config = createValidConfig({
+        files: {
+          "package.json": {
+            content: {},
+            mode: "patch" as unknown as "merge",
+          },
+        },
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /File 'package.json' has invalid mode: patch. Must be one of: overwrite, merge/,
+      );
+    });
+
+    test("throws for mode: merge on text files", () => {
+      const config = createValidConfig({
+        files: { ".gitignore": { content: ["dist"], mode: "merge" } },
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /File '.gitignore' mode: merge requires a .json, .yaml or .yml file/,
+      );
+    });
+  });
+
+  describe("managedPaths validation", () => {
+    test("accepts dotted paths", () => {
+      const config = createValidConfig({
+        files: {
+          "tsconfig.json": {
+            content: {},
+            managedPaths: ["compilerOptions.strict", "engines.node"],
+          },
+        },
+      });
+      assert.doesNotThrow(() => validateRawConfig(config));
+    });
+
+    test("throws when managedPaths is empty or not strings", () => {
+      for (const managedPaths of [[], "engines.node", [1]]) {
+        const config = createValidConfig({
+          files: {
+            "tsconfig.json": {
+              content: {},
+              managedPaths: managedPaths as unknown as string[],
+            },
+          },
+        });
+        assert.throws(
+          () => validateRawConfig(config),
+          /File 'tsconfig.json' managedPaths must be a non-empty array of strings/,
+        );
+      }
+    });
+
+    test("throws for empty segments and wildcards", () => {
+      const configFor = (path: string) =>
+        createValidConfig({
+          files: { "tsconfig.json": { content: {}, managedPaths: [path] } },
+        });
+      assert.throws(
+        () => validateRawConfig(configFor("compilerOptions..strict")),
+        /managedPaths has invalid path 'compilerOptions\.\.strict': use dotted keys like compilerOptions\.strict/,
+      );
+      assert.throws(
+        () => validateRawConfig(configFor("overrides.*.files")),
+        /managedPaths has invalid path 'overrides\.\*\.files'/,
+      );
+    });
+
+    test("throws for text files", () => {
+      const config = createValidConfig({
+        files: { ".npmrc": { content: "a=b", managedPaths: ["a"] } },
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /File '.npmrc' managedPaths requires a .json, .yaml or .yml file/,
+      );
+    });
+
+    test("throws when combined with mode: merge", () => {
+      const config = createValidConfig({
+        files: {
+          "package.json": {
+            content: {},
+            mode: "merge",
+            managedPaths: ["engines.node"],
+          },
+        },
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /File 'package.json' cannot combine managedPaths with mode: merge/,
+      );
+    });
+  });
+
+  describe("interpolate validation", () => {
+    test("throws when interpolate is not a boolean", () => {
+      const config = createValidConfig({
+        files: {
+          "config.json": {
+            content: {},
+            interpolate: "no" as unknown as boolean,
+          },
+        },
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /File 'config.json' interpolate must be a boolean/,
+      );
+    });
+  });
+
+  describe("secretSources validation", () => {
+    test("throws for unknown secret sources", () => {
+      const config = createValidConfig({
+        secretSources: ["file", "vault"] as unknown as ["file"],
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /Config secretSources must be an array of: file, cmd/,
+      );
+    });
+
+    test("accepts known secret sources", () => {
+      const config = createValidConfig({ secretSources: ["file", "cmd"] });
+      assert.doesNotThrow(() => validateRawConfig(config));
+    });
+  });
+
+  describe("path override validation", () => {
+    const withPath = (
+      path: string,
+      files: RawConfig["repos"][number]["files"] = {},
+    ): RawConfig =>
+      createValidConfig({
+        repos: [
+          {
+            git: "git@github.com:org/repo.git",
+            files: { "config.json": { path }, ...files },
+          },
+        ],
+      });
+
+    test("allows a nested relative path", () => {
+      assert.doesNotThrow(() =>
+        validateRawConfig(withPath("packages/web/config.json")),
+      );
+    });
+
+    test("throws on path traversal", () => {
+      assert.throws(
+        () => validateRawConfig(withPath("../other/config.json")),
+        /Invalid path '..\/other\/config.json': must be a relative path/,
+      );
+    });
+
+    test("throws on absolute paths", () => {
+      assert.throws(
+        () => validateRawConfig(withPath("/etc/config.json")),
+        /Invalid path '\/etc\/config.json'/,
+      );
+    });
+
+    test("throws when the extension differs from the file name", () => {
+      assert.throws(
+        () => validateRawConfig(withPath("config/config.yaml")),
+        /file 'config.json' path 'config\/config.yaml' must have the same extension as the file name/,
+      );
+    });
+
+    test("throws when two files are written to the same path", () => {
+      const config = createValidConfig({
+        files: {
+          "config.json": { content: {} },
+          "other/config.json": { content: {} },
+        },
+        repos: [
+          {
+            git: "git@github.com:org/repo.git",
+            files: { "config.json": { path: "other/./config.json" } },
+          },
+        ],
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /files 'config.json' and 'other\/config.json' are both written to 'other\/config.json'/,
+      );
+    });
+
+    test("ignores excluded files when checking for duplicate paths", () => {
+      const config = createValidConfig({
+        files: {
+          "config.json": { content: {} },
+          "other/config.json": { content: {} },
+        },
+        repos: [
+          {
+            git: "git@github.com:org/repo.git",
+            files: {
+              "config.json": { path: "other/config.json" },
+              "other/config.json": false,
+            },
+          },
+        ],
+      });
+      assert.doesNotThrow(() => validateRawConfig(config));
+    });
+  });
+
+  describe("patch validation", () => {
+    const withOverride = (
+      override: Record<string, unknown>,
+      fileName = "config.json",
+    ) =>
+      createValidConfig({
+        files: {
+          "config.json": { content: { key: "value" } },
+          ".gitignore": { content: ["node_modules/"] },
+        },
+        repos: [
+          {
+            git: "git@github.com:org/repo.git",
+            files: { [fileName]: override as RawRepoFileOverride },
+          },
+        ],
+      });
+
+    test("accepts patch and mergePatch", () => {
+      const config = withOverride({
+        mergePatch: { key: null },
+        patch: [
+          { op: "add", path: "/list", value: [] },
+          { op: "move", from: "/list", path: "/items" },
+        ],
+      });
+      assert.doesNotThrow(() => validateRawConfig(config));
+    });
+
+    test("throws when mergePatch is not an object", () => {
+      assert.throws(
+        () => validateRawConfig(withOverride({ mergePatch: ["a"] })),
+        /Repo git@github.com:org\/repo\.git: file 'config.json' mergePatch must be an object/,
+      );
+    });
+
+    test("throws when patch is not an array", () => {
+      assert.throws(
+        () =>
+          validateRawConfig(
+            withOverride({ patch: { op: "remove", path: "/key" } }),
+          ),
+        /Repo git@github.com:org\/repo\.git: file 'config.json' patch must be an array of operations/,
+      );
+    });
+
+    test("names the invalid op", () => {
+      assert.throws(
+        () =>
+          validateRawConfig(
+            withOverride({
+              patch: [
+                { op: "remove", path: "/key" },
+                { op: "add", path: "key", value: 1 },
+              ],
+            }),
+          ),
+        /Repo git@github.com:org\/repo\.git: file 'config.json' patch op 1 path must be a JSON Pointer/,
+      );
+    });
+
+    test("throws for text content", () => {
+      assert.throws(
+        () =>
+          validateRawConfig(
+            withOverride(
+              { patch: [{ op: "remove", path: "/0" }] },
+              ".gitignore",
+            ),
+          ),
+        /Repo git@github.com:org\/repo\.git: file '.gitignore' cannot use patch or mergePatch because its content is text/,
+      );
+    });
+  });
+
+  describe("profiles validation", () => {
+    const profiles: RawConfig["profiles"] = {
+      library: { files: { "config.json": { content: { lib: true } } } },
+      strict: { files: { "config.json": { createOnly: true } } },
+    };
+
+    test("allows repos to use defined profiles", () => {
+      const config = createValidConfig({
+        profiles,
+        repos: [
+          {
+            git: "git@github.com:org/repo.git",
+            profiles: ["library", "strict"],
+          },
+        ],
+      });
+      assert.doesNotThrow(() => validateRawConfig(config));
+    });
+
+    test("throws on unknown profile names with a suggestion", () => {
+      const config = createValidConfig({
+        profiles,
+        repos: [{ git: "git@github.com:org/repo.git", profiles: ["librar"] }],
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /Repo at index 0 references unknown profile 'librar' \(did you mean 'library'\?\)/,
+      );
+    });
+
+    test("throws on profile names when no profiles are defined", () => {
+      const config = createValidConfig({
+        repos: [{ git: "git@github.com:org/repo.git", profiles: ["library"] }],
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        (error: Error) =>
+          error.message ===
+          "Repo at index 0 references unknown profile 'library'",
+      );
+    });
+
+    test("throws when repo profiles is not an array of strings", () => {
+      const config = createValidConfig({
+        profiles,
+        repos: [
+          {
+            git: "git@github.com:org/repo.git",
+            profiles: "library" as unknown as string[],
+          },
+        ],
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /Repo at index 0: profiles must be an array of non-empty strings/,
+      );
+    });
+
+    test("throws when a profile references an undefined file", () => {
+      const config = createValidConfig({
+        profiles: { library: { files: { "other.json": { content: {} } } } },
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /Profile 'library' references undefined file 'other.json'/,
+      );
+    });
+
+    test("throws when a profile has no files object", () => {
+      const config = createValidConfig({
+        profiles: { library: {} as RawProfile },
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /Profile 'library' must have a files object/,
+      );
+    });
+
+    test("throws when profile content kind differs from the root", () => {
+      const config = createValidConfig({
+        profiles: { library: { files: { "config.json": { content: "x" } } } },
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /Profile 'library': file 'config.json' content must be an object/,
+      );
+    });
+
+    test("throws on unknown profile overlay keys", () => {
+      const config = createValidConfig({
+        profiles: {
+          library: {
+            files: {
+              "config.json": { override: true } as RawProfileFileOverlay,
+            },
+          },
+        },
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /Profile 'library': file 'config.json' has unknown key 'override'/,
+      );
+    });
+  });
+
+  describe("tags validation", () => {
+    test("allows an array of tags", () => {
+      const config = createValidConfig({
+        repos: [{ git: "git@github.com:org/repo.git", tags: ["a", "b"] }],
+      });
+      assert.doesNotThrow(() => validateRawConfig(config));
+    });
+
+    test("throws when tags is not an array of strings", () => {
+      const config = createValidConfig({
+        repos: [
+          {
+            git: "git@github.com:org/repo.git",
+            tags: "frontend" as unknown as string[],
+          },
+        ],
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /Repo at index 0: tags must be an array of non-empty strings/,
+      );
+    });
+  });
+
+  describe("discover validation", () => {
+    test("allows GitHub and Azure DevOps discovery without git", () => {
+      const config = createValidConfig({
+        repos: [
+          {
+            discover: {
+              github: { org: "my-org", topic: "node", excludeArchived: true },
+            },
+          },
+          { discover: { azure: { organization: "my-org", project: "proj" } } },
+        ],
+      });
+      assert.doesNotThrow(() => validateRawConfig(config));
+    });
+
+    test("throws when both git and discover are set", () => {
+      const config = createValidConfig({
+        repos: [
+          {
+            git: "git@github.com:org/repo.git",
+            discover: { github: { org: "org" } },
+          },
+        ],
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /Repo at index 0 cannot have both git and discover/,
+      );
+    });
+
+    test("throws when no provider or both providers are set", () => {
+      for (const discover of [
+        {},
+        {
+          github: { org: "org" },
+          azure: { organization: "org", project: "p" },
+        },
+      ]) {
+        const config = createValidConfig({ repos: [{ discover }] });
+        assert.throws(
+          () => validateRawConfig(config),
+          /discover must have exactly one of 'github' or 'azure'/,
+        );
+      }
+    });
+
+    test("throws when GitHub org is missing", () => {
+      const config = createValidConfig({
+        repos: [
+          {
+            discover: { github: { topic: "node" } as { org: string } },
+          },
+        ],
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /Repo at index 0: discover.github.org must be a non-empty string/,
+      );
+    });
+
+    test("throws when Azure DevOps project is missing", () => {
+      const config = createValidConfig({
+        repos: [
+          {
+            discover: {
+              azure: { organization: "org" } as {
+                organization: string;
+                project: string;
+              },
+            },
+          },
+        ],
+      });
+      assert.throws(
+        () => validateRawConfig(config),
+        /discover.azure.project must be a non-empty string/,
+      );
+    });
+  });
+
+  describe("config sources", () => {
+    test("appends the defining config file to repo errors", () => {
+      const config = createValidConfig({
+        repos: [
+          { git: "git@github.com:org/repo.git" },
+          { git: [] as string[] },
+        ],
+      });
+
+      assert.throws(
+        () =>
+          validateRawConfig(config, {
+            files: { "config.json": "/configs/base.yaml" },
+            repos: ["/configs/base.yaml", "/configs/team.yaml"],
+          }),
+        /Repo at index 1 has empty git array \(defined in \/configs\/team.yaml\)/,
+      );
+    });
+
+    test("appends the defining config file to file errors", () => {
+      const config = createValidConfig({
+        files: { "config.json": { createOnly: "yes" as unknown as boolean } },
+      });
+
+      assert.throws(
+        () =>
+          validateRawConfig(config, {
+            files: { "config.json": "/configs/base.yaml" },
+            repos: ["/configs/team.yaml"],
+          }),
+        /createOnly must be a boolean \(defined in \/configs\/base.yaml\)/,
+      );
+    });
+  });
+
+  describe("multiple errors", () => {
+    test("reports an error for every invalid entry", () => {
+      const config = createValidConfig({
+        files: {
+          "config.json": { mergeStrategy: "merge" as "replace" },
+          "other.json": { content: { key: "value" } },
+        },
+        repos: [
+          { git: [] as string[] },
+          { git: "git@github.com:org/repo.git" },
+          {
+            git: "git@github.com:org/repo2.git",
+            files: { "missing.json": false },
+          },
+        ],
+      });
+
+      assert.throws(
+        () => validateRawConfig(config),
+        (error: Error) =>
+          error.message.startsWith("Config validation failed with 3 errors:") &&
+          error.message.includes("  - File 'config.json' has invalid") &&
+          error.message.includes("  - Repo at index 0 has empty git array") &&
+          error.message.includes(
+            "  - Repo at index 2 references undefined file 'missing.json'",
+          ),
+      );
+    });
+
+    test("throws a single error unchanged", () => {
+      const config = createValidConfig({ repos: [{ git: [] as string[] }] });
+
+      assert.throws(
+        () => validateRawConfig(config),
+        (error: Error) =>
+          error.message === "Repo at index 0 has empty git array",
+      );
+    });
+  });
+
   describe("valid configurations", () => {
     test("accepts minimal valid config", () => {
       const config: RawConfig = {
@@ -1,13 +1,91 @@
-import { isAbsolute } from "node:path";
-import type { RawConfig } from "./config.js";
+import { extname, isAbsolute, normalize } from "node:path";
+import type {
+  RawConfig,
+  RawFileConfig,
+  RawProfile,
+  RawRepoConfig,
+  RawRepoFileOverride,
+} from "./config.js";
+import type { ConfigSources } from "./config-composer.js";
+import { isStructuredFileName, isTextContent } from "./config-formatter.js";
+import { findClosestMatch, formatUnknownKey } from "./suggest.js";
+import { SECRET_SOURCES } from "./env.js";
+import { describeInvalidOperation } from "./json-patch.js";
+import { isPlainObject } from "./merge.js";
 
-const VALID_STRATEGIES = ["replace", "append", "prepend"];
+const VALID_STRATEGIES = [
+  "replace",
+  "append",
+  "prepend",
+  "unique",
+  "union-prepend",
+];
+
+const VALID_MODES = ["overwrite", "merge"];
+
+// Var names usable in ${name} placeholders
+const VAR_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+// Prefixes reserved for built-in vars (repo.name, target.dir, ...)
+const RESERVED_VAR_PREFIXES: Record<string, string> = {
+  "repo.": "built-in repo variables",
+  "target.": "built-in target variables",
+};
+
+// Known keys; anything else is most likely a typo
+const ROOT_KEYS = [
+  "extends",
+  "files",
+  "repos",
+  "vars",
+  "profiles",
+  "secretSources",
+];
+const FILE_KEYS = [
+  "content",
+  "contentFile",
+  "mergeStrategy",
+  "arrayStrategies",
+  "createOnly",
+  "header",
+  "schemaUrl",
+  "targets",
+  "interpolate",
+  "mode",
+  "managedPaths",
+];
+const REPO_KEYS = ["git", "discover", "files", "vars", "tags", "profiles"];
+const PROFILE_KEYS = ["files"];
+const PROFILE_FILE_KEYS = [
+  "content",
+  "contentFile",
+  "createOnly",
+  "header",
+  "schemaUrl",
+];
+const REPO_FILE_OVERRIDE_KEYS = [
+  "content",
+  "contentFile",
+  "override",
+  "createOnly",
+  "header",
+  "schemaUrl",
+  "path",
+  "patch",
+  "mergePatch",
+];
 
 /**
  * Validates raw config structure before normalization.
+ * @param config - The raw config to validate
+ * @param sources - Optional map of which config file defined each entry,
+ *   used to name the offending file in error messages
  * @throws Error if validation fails
  */
-export function validateRawConfig(config: RawConfig): void {
+export function validateRawConfig(
+  config: RawConfig,
+  sources?: ConfigSources,
+): void {
   if (!config.files || typeof config.files !== "object") {
     throw new Error("Config missing required field: files (must be an object)");
   }
@@ -17,143 +95,714 @@ export function validateRawConfig(config: RawConfig): void {
     throw new Error("Config files object cannot be empty");
   }
 
+  // Each entry stops at its first error; all entries are checked
+  const errors: string[] = [];
+
+  collectError(errors, () => validateKnownKeys(config, ROOT_KEYS, "Config"));
+
   // Validate each file definition
   for (const fileName of fileNames) {
-    validateFileName(fileName);
+    collectError(errors, () =>
+      withSource(
+        () => validateFileConfig(fileName, config.files[fileName]),
+        sources?.files[fileName],
+      ),
+    );
+  }
+
+  if (config.vars !== undefined) {
+    collectError(errors, () => validateVars(config.vars, "Config"));
+  }
 
-    const fileConfig = config.files[fileName];
-    if (!fileConfig || typeof fileConfig !== "object") {
-      throw new Error(`File '${fileName}' must have a configuration object`);
+  if (
+    config.secretSources !== undefined &&
+    (!Array.isArray(config.secretSources) ||
+      !config.secretSources.every((s) => SECRET_SOURCES.includes(s)))
+  ) {
+    errors.push(
+      `Config secretSources must be an array of: ${SECRET_SOURCES.join(", ")}`,
+    );
+  }
+
+  if (config.profiles !== undefined) {
+    if (!isPlainObject(config.profiles)) {
+      errors.push("Config profiles must be an object");
+    } else {
+      for (const [name, profile] of Object.entries(config.profiles)) {
+        collectError(errors, () => validateProfile(name, profile, config));
+      }
     }
+  }
 
-    if (
-      fileConfig.content !== undefined &&
-      (typeof fileConfig.content !== "object" ||
-        fileConfig.content === null ||
-        Array.isArray(fileConfig.content))
-    ) {
-      throw new Error(`File '${fileName}' content must be an object`);
+  if (!config.repos || !Array.isArray(config.repos)) {
+    errors.push("Config missing required field: repos (must be an array)");
+  } else {
+    // Validate each repo
+    for (let i = 0; i < config.repos.length; i++) {
+      collectError(errors, () =>
+        withSource(
+          () => validateRepoConfig(config.repos[i], i, config),
+          sources?.repos[i],
+        ),
+      );
     }
+  }
 
-    if (
-      fileConfig.mergeStrategy !== undefined &&
-      !VALID_STRATEGIES.includes(fileConfig.mergeStrategy)
-    ) {
+  if (errors.length === 1) {
+    throw new Error(errors[0]);
+  }
+  if (errors.length > 1) {
+    throw new Error(formatValidationErrors(errors));
+  }
+}
+
+/**
+ * Formats several validation errors as a single error message.
+ */
+export function formatValidationErrors(errors: string[]): string {
+  const count = `${errors.length} error${errors.length === 1 ? "" : "s"}`;
+  const lines = errors.map((error) => `  - ${error}`);
+  return [`Config validation failed with ${count}:`, ...lines].join("\n");
+}
+
+/**
+ * Runs a validation step, recording its error instead of throwing.
+ */
+function collectError(errors: string[], validate: () => void): void {
+  try {
+    validate();
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Runs a validation step, appending the config file that defined the
+ * entry to any error message (only set when configs are composed).
+ */
+function withSource(validate: () => void, source: string | undefined): void {
+  try {
+    validate();
+  } catch (error) {
+    if (source === undefined) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${message} (defined in ${source})`);
+  }
+}
+
+/**
+ * Validates a file's arrayStrategies map of dotted paths to strategies.
+ */
+function validateArrayStrategies(
+  fileName: string,
+  arrayStrategies: unknown,
+): void {
+  if (!isPlainObject(arrayStrategies)) {
+    throw new Error(
+      `File '${fileName}' arrayStrategies must map array paths to strategies`,
+    );
+  }
+
+  for (const [path, strategy] of Object.entries(arrayStrategies)) {
+    if (path.split(".").some((segment) => segment === "")) {
+      throw new Error(
+        `File '${fileName}' arrayStrategies has invalid path '${path}': use dotted keys like compilerOptions.lib or overrides.*.files`,
+      );
+    }
+    if (typeof strategy !== "string" || !VALID_STRATEGIES.includes(strategy)) {
       throw new Error(
-        `File '${fileName}' has invalid mergeStrategy: ${fileConfig.mergeStrategy}. Must be one of: ${VALID_STRATEGIES.join(", ")}`,
+        `File '${fileName}' arrayStrategies '${path}' has invalid strategy: ${String(strategy)}. Must be one of: ${VALID_STRATEGIES.join(", ")}`,
       );
     }
+  }
+}
+
+/**
+ * Validates a file's managedPaths list of dotted paths.
+ */
+function validateManagedPaths(
+  fileName: string,
+  fileConfig: RawFileConfig,
+): void {
+  const { managedPaths } = fileConfig;
+  if (
+    !Array.isArray(managedPaths) ||
+    managedPaths.length === 0 ||
+    !managedPaths.every((p) => typeof p === "string")
+  ) {
+    throw new Error(
+      `File '${fileName}' managedPaths must be a non-empty array of strings`,
+    );
+  }
 
+  for (const path of managedPaths) {
+    if (path.split(".").some((segment) => segment === "" || segment === "*")) {
+      throw new Error(
+        `File '${fileName}' managedPaths has invalid path '${path}': use dotted keys like compilerOptions.strict`,
+      );
+    }
+  }
+
+  if (!isStructuredFileName(fileName)) {
+    throw new Error(
+      `File '${fileName}' managedPaths requires a .json, .yaml or .yml file`,
+    );
+  }
+  if (fileConfig.mode === "merge") {
+    throw new Error(
+      `File '${fileName}' cannot combine managedPaths with mode: merge`,
+    );
+  }
+}
+
+/**
+ * Validates a single root-level file definition.
+ */
+function validateFileConfig(fileName: string, fileConfig: RawFileConfig): void {
+  validateFileName(fileName);
+
+  if (!fileConfig || typeof fileConfig !== "object") {
+    throw new Error(`File '${fileName}' must have a configuration object`);
+  }
+
+  validateKnownKeys(fileConfig, FILE_KEYS, `File '${fileName}'`);
+
+  if (fileConfig.content !== undefined) {
+    validateContentType(fileConfig.content, fileName, `File '${fileName}'`);
+  }
+
+  if (
+    fileConfig.mergeStrategy !== undefined &&
+    !VALID_STRATEGIES.includes(fileConfig.mergeStrategy)
+  ) {
+    throw new Error(
+      `File '${fileName}' has invalid mergeStrategy: ${fileConfig.mergeStrategy}. Must be one of: ${VALID_STRATEGIES.join(", ")}`,
+    );
+  }
+
+  if (fileConfig.arrayStrategies !== undefined) {
+    validateArrayStrategies(fileName, fileConfig.arrayStrategies);
+  }
+
+  if (
+    fileConfig.createOnly !== undefined &&
+    typeof fileConfig.createOnly !== "boolean"
+  ) {
+    throw new Error(`File '${fileName}' createOnly must be a boolean`);
+  }
+
+  if (fileConfig.header !== undefined) {
     if (
-      fileConfig.createOnly !== undefined &&
-      typeof fileConfig.createOnly !== "boolean"
+      typeof fileConfig.header !== "string" &&
+      (!Array.isArray(fileConfig.header) ||
+        !fileConfig.header.every((h) => typeof h === "string"))
     ) {
-      throw new Error(`File '${fileName}' createOnly must be a boolean`);
+      throw new Error(
+        `File '${fileName}' header must be a string or array of strings`,
+      );
     }
+  }
 
-    if (fileConfig.header !== undefined) {
-      if (
-        typeof fileConfig.header !== "string" &&
-        (!Array.isArray(fileConfig.header) ||
-          !fileConfig.header.every((h) => typeof h === "string"))
-      ) {
-        throw new Error(
-          `File '${fileName}' header must be a string or array of strings`,
-        );
-      }
+  if (
+    fileConfig.schemaUrl !== undefined &&
+    typeof fileConfig.schemaUrl !== "string"
+  ) {
+    throw new Error(`File '${fileName}' schemaUrl must be a string`);
+  }
+
+  if (
+    fileConfig.interpolate !== undefined &&
+    typeof fileConfig.interpolate !== "boolean"
+  ) {
+    throw new Error(`File '${fileName}' interpolate must be a boolean`);
+  }
+
+  if (fileConfig.mode !== undefined) {
+    if (!VALID_MODES.includes(fileConfig.mode)) {
+      throw new Error(
+        `File '${fileName}' has invalid mode: ${fileConfig.mode}. Must be one of: ${VALID_MODES.join(", ")}`,
+      );
+    }
+    if (fileConfig.mode === "merge" && !isStructuredFileName(fileName)) {
+      throw new Error(
+        `File '${fileName}' mode: merge requires a .json, .yaml or .yml file`,
+      );
     }
+  }
 
+  if (fileConfig.managedPaths !== undefined) {
+    validateManagedPaths(fileName, fileConfig);
+  }
+
+  if (fileConfig.targets !== undefined) {
     if (
-      fileConfig.schemaUrl !== undefined &&
-      typeof fileConfig.schemaUrl !== "string"
+      !Array.isArray(fileConfig.targets) ||
+      fileConfig.targets.length === 0 ||
+      !fileConfig.targets.every((t) => typeof t === "string" && t.length > 0)
     ) {
-      throw new Error(`File '${fileName}' schemaUrl must be a string`);
+      throw new Error(
+        `File '${fileName}' targets must be a non-empty array of non-empty strings`,
+      );
+    }
+    for (const pattern of fileConfig.targets) {
+      validatePathSafety(pattern, "targets pattern");
     }
   }
+}
 
-  if (!config.repos || !Array.isArray(config.repos)) {
-    throw new Error("Config missing required field: repos (must be an array)");
-  }
+/**
+ * Validates a single repo entry, including its per-repo file overrides.
+ */
+function validateRepoConfig(
+  repo: RawRepoConfig,
+  i: number,
+  config: RawConfig,
+): void {
+  validateKnownKeys(repo, REPO_KEYS, `Repo at index ${i}`);
 
-  // Validate each repo
-  for (let i = 0; i < config.repos.length; i++) {
-    const repo = config.repos[i];
+  if (repo.discover !== undefined) {
+    if (repo.git !== undefined) {
+      throw new Error(`Repo at index ${i} cannot have both git and discover`);
+    }
+    validateDiscovery(repo.discover, `Repo at index ${i}`);
+  } else {
     if (!repo.git) {
       throw new Error(`Repo at index ${i} missing required field: git`);
     }
     if (Array.isArray(repo.git) && repo.git.length === 0) {
       throw new Error(`Repo at index ${i} has empty git array`);
     }
+  }
 
-    // Validate per-repo file overrides
-    if (repo.files) {
-      if (typeof repo.files !== "object" || Array.isArray(repo.files)) {
-        throw new Error(`Repo at index ${i}: files must be an object`);
+  if (repo.vars !== undefined) {
+    validateVars(repo.vars, `Repo at index ${i}`);
+  }
+
+  if (
+    repo.tags !== undefined &&
+    (!Array.isArray(repo.tags) ||
+      !repo.tags.every((t) => typeof t === "string" && t.length > 0))
+  ) {
+    throw new Error(
+      `Repo at index ${i}: tags must be an array of non-empty strings`,
+    );
+  }
+
+  if (repo.profiles !== undefined) {
+    if (
+      !Array.isArray(repo.profiles) ||
+      !repo.profiles.every((p) => typeof p === "string" && p.length > 0)
+    ) {
+      throw new Error(
+        `Repo at index ${i}: profiles must be an array of non-empty strings`,
+      );
+    }
+    const profileNames = Object.keys(config.profiles ?? {});
+    for (const name of repo.profiles) {
+      if (!profileNames.includes(name)) {
+        const suggestion = findClosestMatch(name, profileNames);
+        throw new Error(
+          `Repo at index ${i} references unknown profile '${name}'` +
+            (suggestion ? ` (did you mean '${suggestion}'?)` : ""),
+        );
       }
+    }
+  }
 
-      for (const fileName of Object.keys(repo.files)) {
-        // Ensure the file is defined at root level
-        if (!config.files[fileName]) {
-          throw new Error(
-            `Repo at index ${i} references undefined file '${fileName}'. File must be defined in root 'files' object.`,
-          );
-        }
+  // Validate per-repo file overrides
+  if (repo.files) {
+    if (typeof repo.files !== "object" || Array.isArray(repo.files)) {
+      throw new Error(`Repo at index ${i}: files must be an object`);
+    }
 
-        const fileOverride = repo.files[fileName];
+    for (const fileName of Object.keys(repo.files)) {
+      // Ensure the file is defined at root level
+      if (!config.files[fileName]) {
+        throw new Error(
+          `Repo at index ${i} references undefined file '${fileName}'. File must be defined in root 'files' object.`,
+        );
+      }
 
-        // false means exclude this file for this repo - no further validation needed
-        if (fileOverride === false) {
-          continue;
-        }
+      const fileOverride = repo.files[fileName];
 
-        if (fileOverride.override && !fileOverride.content) {
-          throw new Error(
-            `Repo ${getGitDisplayName(repo.git)} has override: true for file '${fileName}' but no content defined`,
-          );
-        }
+      // false means exclude this file for this repo - no further validation needed
+      if (fileOverride === false) {
+        continue;
+      }
+
+      validateKnownKeys(
+        fileOverride,
+        REPO_FILE_OVERRIDE_KEYS,
+        `Repo at index ${i}: file '${fileName}'`,
+      );
 
+      if (fileOverride.override && !fileOverride.content) {
+        throw new Error(
+          `Repo ${getRepoDisplayName(repo, i)} has override: true for file '${fileName}' but no content defined`,
+        );
+      }
+
+      if (fileOverride.content !== undefined) {
+        validateContentType(
+          fileOverride.content,
+          fileName,
+          `Repo at index ${i}: file '${fileName}'`,
+        );
+
+        const rootContent = config.files[fileName].content;
         if (
-          fileOverride.content !== undefined &&
-          (typeof fileOverride.content !== "object" ||
-            fileOverride.content === null ||
-            Array.isArray(fileOverride.content))
+          !fileOverride.override &&
+          rootContent !== undefined &&
+          isTextContent(rootContent) !== isTextContent(fileOverride.content)
         ) {
           throw new Error(
-            `Repo at index ${i}: file '${fileName}' content must be an object`,
+            `Repo ${getRepoDisplayName(repo, i)}: file '${fileName}' content must be ${isTextContent(rootContent) ? "text" : "an object"} to merge with the root content`,
           );
         }
+      }
 
+      if (
+        fileOverride.createOnly !== undefined &&
+        typeof fileOverride.createOnly !== "boolean"
+      ) {
+        throw new Error(
+          `Repo ${getRepoDisplayName(repo, i)}: file '${fileName}' createOnly must be a boolean`,
+        );
+      }
+
+      if (fileOverride.header !== undefined) {
         if (
-          fileOverride.createOnly !== undefined &&
-          typeof fileOverride.createOnly !== "boolean"
+          typeof fileOverride.header !== "string" &&
+          (!Array.isArray(fileOverride.header) ||
+            !fileOverride.header.every((h) => typeof h === "string"))
         ) {
           throw new Error(
-            `Repo ${getGitDisplayName(repo.git)}: file '${fileName}' createOnly must be a boolean`,
+            `Repo ${getRepoDisplayName(repo, i)}: file '${fileName}' header must be a string or array of strings`,
           );
         }
+      }
 
-        if (fileOverride.header !== undefined) {
-          if (
-            typeof fileOverride.header !== "string" &&
-            (!Array.isArray(fileOverride.header) ||
-              !fileOverride.header.every((h) => typeof h === "string"))
-          ) {
-            throw new Error(
-              `Repo ${getGitDisplayName(repo.git)}: file '${fileName}' header must be a string or array of strings`,
-            );
-          }
-        }
+      if (
+        fileOverride.schemaUrl !== undefined &&
+        typeof fileOverride.schemaUrl !== "string"
+      ) {
+        throw new Error(
+          `Repo ${getRepoDisplayName(repo, i)}: file '${fileName}' schemaUrl must be a string`,
+        );
+      }
 
-        if (
-          fileOverride.schemaUrl !== undefined &&
-          typeof fileOverride.schemaUrl !== "string"
-        ) {
+      if (
+        fileOverride.patch !== undefined ||
+        fileOverride.mergePatch !== undefined
+      ) {
+        validatePatches(
+          fileOverride,
+          fileOverride.override
+            ? fileOverride.content
+            : config.files[fileName].content,
+          `Repo ${getRepoDisplayName(repo, i)}: file '${fileName}'`,
+        );
+      }
+
+      if (fileOverride.path !== undefined) {
+        if (config.files[fileName].targets !== undefined) {
           throw new Error(
-            `Repo ${getGitDisplayName(repo.git)}: file '${fileName}' schemaUrl must be a string`,
+            `Repo ${getRepoDisplayName(repo, i)}: file '${fileName}' cannot set path because the file has targets`,
           );
         }
+        validateTargetPath(
+          fileOverride.path,
+          fileName,
+          `Repo ${getRepoDisplayName(repo, i)}: file '${fileName}'`,
+        );
       }
     }
+
+    validateUniqueTargetPaths(repo, i, config);
+  }
+}
+
+/**
+ * Validates a repo file override's patch and mergePatch, which only apply
+ * to object content.
+ */
+function validatePatches(
+  fileOverride: RawRepoFileOverride,
+  content: unknown,
+  context: string,
+): void {
+  if (isTextContent(content)) {
+    throw new Error(
+      `${context} cannot use patch or mergePatch because its content is text`,
+    );
+  }
+
+  if (
+    fileOverride.mergePatch !== undefined &&
+    !isPlainObject(fileOverride.mergePatch)
+  ) {
+    throw new Error(`${context} mergePatch must be an object`);
+  }
+
+  if (fileOverride.patch !== undefined) {
+    if (!Array.isArray(fileOverride.patch)) {
+      throw new Error(`${context} patch must be an array of operations`);
+    }
+    fileOverride.patch.forEach((operation, index) => {
+      const problem = describeInvalidOperation(operation);
+      if (problem) {
+        throw new Error(`${context} patch op ${index} ${problem}`);
+      }
+    });
+  }
+}
+
+/**
+ * Rejects keys that are not in validKeys, suggesting the closest valid key.
+ */
+function validateKnownKeys(
+  entry: unknown,
+  validKeys: string[],
+  context: string,
+): void {
+  if (!isPlainObject(entry)) return;
+
+  for (const key of Object.keys(entry)) {
+    if (!validKeys.includes(key)) {
+      throw new Error(`${context} has ${formatUnknownKey(key, validKeys)}`);
+    }
+  }
+}
+
+/**
+ * Validates a vars map: names must be usable in placeholders and not use
+ * a reserved prefix (repo.*, target.*); values must be scalars.
+ */
+function validateVars(vars: unknown, context: string): void {
+  if (typeof vars !== "object" || vars === null || Array.isArray(vars)) {
+    throw new Error(`${context} vars must be an object`);
+  }
+
+  for (const [name, value] of Object.entries(vars)) {
+    if (!VAR_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `${context} has invalid var name '${name}': must start with a letter or underscore and contain only letters, digits, '_', '.' or '-'`,
+      );
+    }
+    for (const [prefix, description] of Object.entries(RESERVED_VAR_PREFIXES)) {
+      if (name.startsWith(prefix)) {
+        throw new Error(
+          `${context} var '${name}' uses the reserved '${prefix}' prefix (${description})`,
+        );
+      }
+    }
+    if (!["string", "number", "boolean"].includes(typeof value)) {
+      throw new Error(
+        `${context} var '${name}' must be a string, number or boolean`,
+      );
+    }
+  }
+}
+
+/**
+ * Validates a named profile: each overlay must target a file defined at
+ * root level and use the same content kind (text or object) as the root.
+ */
+function validateProfile(
+  name: string,
+  profile: RawProfile,
+  config: RawConfig,
+): void {
+  const context = `Profile '${name}'`;
+  validateKnownKeys(profile, PROFILE_KEYS, context);
+  if (!isPlainObject(profile) || !isPlainObject(profile.files)) {
+    throw new Error(`${context} must have a files object`);
+  }
+
+  for (const [fileName, overlay] of Object.entries(profile.files)) {
+    const fileContext = `${context}: file '${fileName}'`;
+    if (!config.files[fileName]) {
+      throw new Error(
+        `${context} references undefined file '${fileName}'. File must be defined in root 'files' object.`,
+      );
+    }
+    if (!isPlainObject(overlay)) {
+      throw new Error(`${fileContext} must be an object`);
+    }
+    validateKnownKeys(overlay, PROFILE_FILE_KEYS, fileContext);
+
+    if (overlay.content !== undefined) {
+      validateContentType(overlay.content, fileName, fileContext);
+
+      const rootContent = config.files[fileName].content;
+      if (
+        rootContent !== undefined &&
+        isTextContent(rootContent) !== isTextContent(overlay.content)
+      ) {
+        throw new Error(
+          `${fileContext} content must be ${isTextContent(rootContent) ? "text" : "an object"} to merge with the root content`,
+        );
+      }
+    }
+
+    if (
+      overlay.createOnly !== undefined &&
+      typeof overlay.createOnly !== "boolean"
+    ) {
+      throw new Error(`${fileContext} createOnly must be a boolean`);
+    }
+
+    if (
+      overlay.header !== undefined &&
+      typeof overlay.header !== "string" &&
+      (!Array.isArray(overlay.header) ||
+        !overlay.header.every((h) => typeof h === "string"))
+    ) {
+      throw new Error(
+        `${fileContext} header must be a string or array of strings`,
+      );
+    }
+
+    if (
+      overlay.schemaUrl !== undefined &&
+      typeof overlay.schemaUrl !== "string"
+    ) {
+      throw new Error(`${fileContext} schemaUrl must be a string`);
+    }
+  }
+}
+
+/**
+ * Validates a discover block: exactly one of github or azure, with the
+ * fields needed to list that provider's repos.
+ */
+function validateDiscovery(discover: unknown, context: string): void {
+  if (!isPlainObject(discover)) {
+    throw new Error(`${context}: discover must be an object`);
+  }
+
+  const providers = ["github", "azure"].filter(
+    (p) => discover[p] !== undefined,
+  );
+  if (providers.length !== 1) {
+    throw new Error(
+      `${context}: discover must have exactly one of 'github' or 'azure'`,
+    );
+  }
+
+  const isNonEmptyString = (val: unknown) =>
+    typeof val === "string" && val.length > 0;
+
+  if (discover.github !== undefined) {
+    const github = discover.github;
+    if (!isPlainObject(github) || !isNonEmptyString(github.org)) {
+      throw new Error(
+        `${context}: discover.github.org must be a non-empty string`,
+      );
+    }
+    if (github.topic !== undefined && !isNonEmptyString(github.topic)) {
+      throw new Error(
+        `${context}: discover.github.topic must be a non-empty string`,
+      );
+    }
+    if (
+      github.excludeArchived !== undefined &&
+      typeof github.excludeArchived !== "boolean"
+    ) {
+      throw new Error(
+        `${context}: discover.github.excludeArchived must be a boolean`,
+      );
+    }
+    return;
+  }
+
+  const azure = discover.azure;
+  if (!isPlainObject(azure)) {
+    throw new Error(`${context}: discover.azure must be an object`);
+  }
+  for (const field of ["organization", "project"]) {
+    if (!isNonEmptyString(azure[field])) {
+      throw new Error(
+        `${context}: discover.azure.${field} must be a non-empty string`,
+      );
+    }
+  }
+}
+
+/**
+ * Validates content type for a file.
+ * JSON/YAML files require an object; other files accept an object
+ * (written as JSON) or text (a string or array of strings).
+ */
+function validateContentType(
+  content: unknown,
+  fileName: string,
+  context: string,
+): void {
+  const isObject =
+    typeof content === "object" && content !== null && !Array.isArray(content);
+
+  if (isStructuredFileName(fileName)) {
+    if (!isObject) {
+      throw new Error(`${context} content must be an object`);
+    }
+    return;
+  }
+
+  if (!isObject && !isTextContent(content)) {
+    throw new Error(
+      `${context} content must be an object, a string or an array of strings`,
+    );
+  }
+}
+
+/**
+ * Validates a per-repo target path. It must be a safe relative path with
+ * the same extension as the file name, since the output format follows
+ * the file name.
+ */
+function validateTargetPath(
+  path: unknown,
+  fileName: string,
+  context: string,
+): void {
+  if (typeof path !== "string" || path.length === 0) {
+    throw new Error(`${context} path must be a non-empty string`);
+  }
+  validatePathSafety(path, "path");
+
+  if (extname(path).toLowerCase() !== extname(fileName).toLowerCase()) {
+    throw new Error(
+      `${context} path '${path}' must have the same extension as the file name`,
+    );
+  }
+}
+
+/**
+ * Ensures no two files synced to a repo are written to the same path.
+ * Files with targets are skipped; their paths depend on the clone.
+ */
+function validateUniqueTargetPaths(
+  repo: RawRepoConfig,
+  i: number,
+  config: RawConfig,
+): void {
+  const targets = new Map<string, string>();
+
+  for (const fileName of Object.keys(config.files)) {
+    const override = repo.files?.[fileName];
+    if (override === false || config.files[fileName].targets) continue;
+
+    const target = normalize(override?.path ?? fileName);
+    const other = targets.get(target);
+    if (other !== undefined) {
+      throw new Error(
+        `Repo ${getRepoDisplayName(repo, i)}: files '${other}' and '${fileName}' are both written to '${target}'`,
+      );
+    }
+    targets.set(target, fileName);
   }
 }
 
@@ -165,24 +814,35 @@ function validateFileName(fileName: string): void {
     throw new Error("File name must be a non-empty string");
   }
 
-  // Validate fileName doesn't allow path traversal
-  if (fileName.includes("..") || isAbsolute(fileName)) {
+  validatePathSafety(fileName, "fileName");
+}
+
+/**
+ * Validates that a path to write in the repo is relative and cannot
+ * escape the repo or bypass shell escaping.
+ */
+function validatePathSafety(path: string, label: string): void {
+  // Validate path doesn't allow path traversal
+  if (path.includes("..") || isAbsolute(path)) {
     throw new Error(
-      `Invalid fileName '${fileName}': must be a relative path without '..' components`,
+      `Invalid ${label} '${path}': must be a relative path without '..' components`,
     );
   }
 
-  // Validate fileName doesn't contain control characters that could bypass shell escaping
-  if (/[\n\r\0]/.test(fileName)) {
+  // Validate path doesn't contain control characters that could bypass shell escaping
+  if (/[\n\r\0]/.test(path)) {
     throw new Error(
-      `Invalid fileName '${fileName}': cannot contain newlines or null bytes`,
+      `Invalid ${label} '${path}': cannot contain newlines or null bytes`,
     );
   }
 }
 
-function getGitDisplayName(git: string | string[]): string {
-  if (Array.isArray(git)) {
-    return git[0] || "unknown";
+function getRepoDisplayName(repo: RawRepoConfig, i: number): string {
+  if (repo.git === undefined) {
+    return `at index ${i}`;
+  }
+  if (Array.isArray(repo.git)) {
+    return repo.git[0] || "unknown";
   }
-  return git;
+  return repo.git;
 }
@@ -4,7 +4,14 @@ import { writeFileSync, mkdirSync, rmSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { tmpdir } from "node:os";
 import { fileURLToPath } from "node:url";
-import { loadConfig, convertContentToString } from "./config.js";
+import {
+  loadConfig,
+  loadConfigWithDiscovery,
+  convertContentToString,
+} from "./config.js";
+import { clearSecrets, redactSecrets } from "./redact.js";
+import { encryptValue } from "./encryption.js";
+import { randomBytes } from "node:crypto";
 import { parse } from "yaml";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -65,7 +72,7 @@ files:
       key: value
 repos: not-an-array
 `);
-      assert.throws(() => loadConfig(path), /repos \(must be an array\)/);
+      assert.throws(() => loadConfig(path), /repos must be an array/);
     });
 
     test("throws when repo.git is missing", () => {
@@ -82,7 +89,7 @@ repos:
 `);
       assert.throws(
         () => loadConfig(path),
-        /Repo at index 0 missing required field: git/,
+        /repos\[0\] missing required field: git or discover/,
       );
     });
 
@@ -395,6 +402,156 @@ repos:
     });
   });
 
+  describe("encrypted values", () => {
+    const key = randomBytes(32);
+    const env = { JSON_CONFIG_SYNC_KEY: key.toString("base64") };
+
+    afterEach(() => {
+      clearSecrets();
+    });
+
+    test("decrypts values before validation", () => {
+      const path = createTestConfig(`
+vars:
+  token: ${encryptValue("var-secret", key)}
+files:
+  config.json:
+    content:
+      password: ${encryptValue("content-secret", key)}
+      auth: \${token}
+repos:
+  - git: ${encryptValue("git@github.com:org/private.git", key)}
+`);
+      const config = loadConfig(path, { env });
+      assert.equal(config.repos[0].git, "git@github.com:org/private.git");
+      assert.deepEqual(config.repos[0].files[0].content, {
+        password: "content-secret",
+        auth: "var-secret",
+      });
+    });
+
+    test("decrypts values with the !encrypted tag", () => {
+      const payload = encryptValue("tagged", key).slice(4, -1);
+      const path = createTestConfig(`
+files:
+  config.json:
+    content:
+      password: !encrypted ${payload}
+repos:
+  - git: git@github.com:org/repo.git
+`);
+      const config = loadConfig(path, { env });
+      assert.deepEqual(config.repos[0].files[0].content, {
+        password: "tagged",
+      });
+    });
+
+    test("reads the key from the key file", () => {
+      const keyFile = join(testDir, "config.key");
+      writeFileSync(keyFile, key.toString("base64"));
+      const path = createTestConfig(`
+files:
+  config.json:
+    content:
+      password: ${encryptValue("from-key-file", key)}
+repos:
+  - git: git@github.com:org/repo.git
+`);
+      const config = loadConfig(path, { keyFile, env: {} });
+      assert.deepEqual(config.repos[0].files[0].content, {
+        password: "from-key-file",
+      });
+    });
+
+    test("decrypts values in parent configs", () => {
+      writeFileSync(
+        join(testDir, "base.yaml"),
+        `files:\n  config.json:\n    content:\n      password: ${encryptValue("parent", key)}\n`,
+      );
+      const path = createTestConfig(`
+extends: base.yaml
+repos:
+  - git: git@github.com:org/repo.git
+`);
+      const config = loadConfig(path, { env });
+      assert.deepEqual(config.repos[0].files[0].content, {
+        password: "parent",
+      });
+    });
+
+    test("reports the YAML path of a value that cannot be decrypted", () => {
+      const path = createTestConfig(`files:
+  config.json:
+    content:
+      password: ${encryptValue("x", randomBytes(32))}
+repos:
+  - git: git@github.com:org/repo.git
+`);
+      assert.throws(
+        () => loadConfig(path, { env }),
+        /:4:17: files\["config\.json"\]\.content\.password could not be decrypted/,
+      );
+    });
+  });
+
+  describe("secret sources", () => {
+    afterEach(() => {
+      clearSecrets();
+    });
+
+    test("resolves file secrets relative to the config file", async () => {
+      writeFileSync(join(testDir, "token.txt"), "file-secret\n");
+      const path = createTestConfig(`
+secretSources: [file]
+files:
+  .npmrc:
+    content:
+      - //registry.npmjs.org/:_authToken=\${file:token.txt}
+repos:
+  - git: git@github.com:org/repo.git
+`);
+      const config = await loadConfigWithDiscovery(path);
+      assert.deepEqual(config.repos[0].files[0].content, [
+        "//registry.npmjs.org/:_authToken=file-secret",
+      ]);
+      assert.equal(redactSecrets("file-secret"), "***");
+    });
+
+    test("resolves command secrets with the given executor", async () => {
+      const path = createTestConfig(`
+secretSources: [cmd]
+files:
+  config.json:
+    content:
+      token: \${cmd:pass show npm}
+repos:
+  - git: git@github.com:org/repo.git
+`);
+      const config = await loadConfigWithDiscovery(path, {
+        executor: { exec: async () => "cmd-secret" },
+      });
+      assert.deepEqual(config.repos[0].files[0].content, {
+        token: "cmd-secret",
+      });
+    });
+
+    test("loadConfig cannot resolve secret placeholders", () => {
+      const path = createTestConfig(`
+secretSources: [cmd]
+files:
+  config.json:
+    content:
+      token: \${cmd:pass show npm}
+repos:
+  - git: git@github.com:org/repo.git
+`);
+      assert.throws(
+        () => loadConfig(path),
+        /Secret placeholder \$\{cmd:pass show npm\} was not resolved/,
+      );
+    });
+  });
+
   describe("multiple files", () => {
     test("all repos receive all files by default", () => {
       const path = createTestConfig(`
@@ -510,6 +667,61 @@ repos:
       assert.equal(config.repos[3].git, "git@github.com:org/repo4.git");
       assert.deepEqual(config.repos[3].files[0].content, { legacy: true });
     });
+
+    test("loads contentFile and merges it with repo overlays", () => {
+      mkdirSync(join(testDir, "templates"), { recursive: true });
+      writeFileSync(
+        join(testDir, "templates", "base.json"),
+        JSON.stringify({ env: "${TEST_ENV_VAR}", features: ["core"] }),
+        "utf-8",
+      );
+      const path = createTestConfig(`
+files:
+  app.json:
+    mergeStrategy: append
+    contentFile: ./templates/base.json
+repos:
+  - git: git@github.com:org/repo.git
+    files:
+      app.json:
+        content:
+          features:
+            - extra
+`);
+      const config = loadConfig(path);
+
+      assert.deepEqual(config.repos[0].files[0].content, {
+        env: "test-value",
+        features: ["core", "extra"],
+      });
+    });
+
+    test("loads text files from block scalars and line lists", () => {
+      const path = createTestConfig(`
+files:
+  .markdownlintignore:
+    createOnly: true
+    content: |-
+      # Claude Code generated files
+      .claude/
+  .gitignore:
+    content:
+      - node_modules/
+      - dist/
+repos:
+  - git: git@github.com:org/repo.git
+`);
+      const config = loadConfig(path);
+
+      assert.equal(
+        config.repos[0].files[0].content,
+        "# Claude Code generated files\n.claude/",
+      );
+      assert.deepEqual(config.repos[0].files[1].content, [
+        "node_modules/",
+        "dist/",
+      ]);
+    });
   });
 });
 
@@ -1,8 +1,13 @@
-import { readFileSync } from "node:fs";
-import { parse } from "yaml";
+import { dirname } from "node:path";
 import type { ArrayMergeStrategy } from "./merge.js";
+import type { SecretSource } from "./env.js";
+import type { JsonPatchOperation } from "./json-patch.js";
 import { validateRawConfig } from "./config-validator.js";
 import { normalizeConfig } from "./config-normalizer.js";
+import { composeConfig, type ComposeOptions } from "./config-composer.js";
+import { discoverRepos, type DiscoveryOptions } from "./repo-discovery.js";
+import type { NormalizeOptions } from "./config-normalizer.js";
+import { resolveSecretSources } from "./secret-sources.js";
 
 // Re-export formatter functions for backwards compatibility
 export { convertContentToString } from "./config-formatter.js";
@@ -11,35 +16,110 @@ export { convertContentToString } from "./config-formatter.js";
 // Raw Config Types (as parsed from YAML)
 // =============================================================================
 
+// File content: an object (JSON/YAML output), or a string / array of lines (text output)
+export type ContentValue = Record<string, unknown> | string | string[];
+
+// How a file is written: replace the repo's file, or merge into it
+export type FileMode = "overwrite" | "merge";
+
 // Per-file configuration at root level
 export interface RawFileConfig {
-  content?: Record<string, unknown>;
+  content?: ContentValue;
+  // Path to a JSON, YAML or text file with the content (relative to the config file)
+  contentFile?: string;
   mergeStrategy?: ArrayMergeStrategy;
+  // Strategies for arrays at dotted paths (e.g. "overrides.*.files")
+  arrayStrategies?: Record<string, ArrayMergeStrategy>;
   createOnly?: boolean;
   header?: string | string[];
   schemaUrl?: string;
+  // Directory globs (e.g. "packages/*/"); the file is written into each match
+  targets?: string[];
+  // Set to false to write ${...} placeholders in content literally
+  interpolate?: boolean;
+  // merge: deep merge content into the repo's existing file
+  mode?: FileMode;
+  // Dotted paths to enforce in the repo's existing file; all else is kept
+  managedPaths?: string[];
 }
 
 // Per-repo file override
 export interface RawRepoFileOverride {
-  content?: Record<string, unknown>;
+  content?: ContentValue;
+  contentFile?: string;
   override?: boolean;
   createOnly?: boolean;
   header?: string | string[];
   schemaUrl?: string;
+  // Write the file to this path in the repo instead of the file name
+  path?: string;
+  // RFC 7396 merge patch, then RFC 6902 ops, applied to the merged content
+  mergePatch?: Record<string, unknown>;
+  patch?: JsonPatchOperation[];
+}
+
+// Per-file overlay in a named profile
+export interface RawProfileFileOverlay {
+  content?: ContentValue;
+  contentFile?: string;
+  createOnly?: boolean;
+  header?: string | string[];
+  schemaUrl?: string;
+}
+
+// Named set of file overlays that repos opt into with `profiles: [name]`
+export interface RawProfile {
+  files: Record<string, RawProfileFileOverlay>;
+}
+
+// Template variables for ${name} placeholders (scalars are converted to strings)
+export type RawVars = Record<string, string | number | boolean>;
+
+// Lists repos of a GitHub organization (optionally by topic)
+export interface RawGitHubDiscovery {
+  org: string;
+  topic?: string;
+  excludeArchived?: boolean;
+}
+
+// Lists enabled repos of an Azure DevOps project
+export interface RawAzureDiscovery {
+  organization: string;
+  project: string;
+}
+
+// Exactly one provider must be set
+export interface RawRepoDiscovery {
+  github?: RawGitHubDiscovery;
+  azure?: RawAzureDiscovery;
 }
 
 // Repo configuration
 // files can map to false to exclude, or an object to override
+// Either git or discover must be set
 export interface RawRepoConfig {
-  git: string | string[];
+  git?: string | string[];
+  // Expands to the git URLs of an organization's repos at load time
+  discover?: RawRepoDiscovery;
   files?: Record<string, RawRepoFileOverride | false>;
+  // Per-repo vars override root vars
+  vars?: RawVars;
+  // Labels for selecting repos with --tag / --filter
+  tags?: string[];
+  // Profiles applied in order between root content and this repo's overlay
+  profiles?: string[];
 }
 
 // Root config structure
 export interface RawConfig {
+  // Parent config file(s) merged before this one (relative to this file)
+  extends?: string | string[];
   files: Record<string, RawFileConfig>;
   repos: RawRepoConfig[];
+  vars?: RawVars;
+  profiles?: Record<string, RawProfile>;
+  // Enables ${file:...} / ${cmd:...} placeholders
+  secretSources?: SecretSource[];
 }
 
 // =============================================================================
@@ -49,7 +129,19 @@ export interface RawConfig {
 // File content for a single file in a repo
 export interface FileContent {
   fileName: string;
-  content: Record<string, unknown> | null;
+  // Target path in the repo when it differs from fileName
+  path?: string;
+  // Directory globs to write the file into, expanded against the clone
+  targets?: string[];
+  // false when content placeholders must not be interpolated
+  interpolate?: false;
+  // Set with the file's array strategies to merge into the existing file
+  mode?: "merge";
+  mergeStrategy?: ArrayMergeStrategy;
+  arrayStrategies?: Record<string, ArrayMergeStrategy>;
+  // Only these paths are written into the existing file
+  managedPaths?: string[];
+  content: ContentValue | null;
   createOnly?: boolean;
   header?: string[];
   schemaUrl?: string;
@@ -59,6 +151,7 @@ export interface FileContent {
 export interface RepoConfig {
   git: string;
   files: FileContent[];
+  tags?: string[];
 }
 
 // Normalized config
@@ -70,18 +163,40 @@ export interface Config {
 // Public API
 // =============================================================================
 
-export function loadConfig(filePath: string): Config {
-  const content = readFileSync(filePath, "utf-8");
+export type LoadConfigOptions = DiscoveryOptions &
+  ComposeOptions &
+  Omit<NormalizeOptions, "secrets">;
+
+export function loadConfig(
+  filePath: string,
+  options: NormalizeOptions & ComposeOptions = {},
+): Config {
+  const { config: rawConfig, sources } = composeConfig(filePath, options);
+
+  validateRawConfig(rawConfig, sources);
+
+  return normalizeConfig(rawConfig, options);
+}
+
+/**
+ * Loads a config like loadConfig, first expanding `discover` repo entries
+ * into git URLs by querying GitHub or Azure DevOps and resolving
+ * ${file:...} / ${cmd:...} secret placeholders (relative to the config
+ * file's directory).
+ */
+export async function loadConfigWithDiscovery(
+  filePath: string,
+  options: LoadConfigOptions = {},
+): Promise<Config> {
+  const { config: rawConfig, sources } = composeConfig(filePath, options);
 
-  let rawConfig: RawConfig;
-  try {
-    rawConfig = parse(content) as RawConfig;
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    throw new Error(`Failed to parse YAML config at ${filePath}: ${message}`);
-  }
+  validateRawConfig(rawConfig, sources);
 
-  validateRawConfig(rawConfig);
+  const config = await discoverRepos(rawConfig, options);
+  const secrets = await resolveSecretSources(config, {
+    executor: options.executor,
+    cwd: dirname(filePath),
+  });
 
-  return normalizeConfig(rawConfig);
+  return normalizeConfig(config, { ...options, secrets });
 }
@@ -0,0 +1,228 @@
+import { test, describe, beforeEach, afterEach } from "node:test";
+import { strict as assert } from "node:assert";
+import { writeFileSync, mkdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { resolveContentFiles } from "./content-file-resolver.js";
+import type { RawConfig } from "./config.js";
+
+const testDir = join(tmpdir(), "content-file-resolver-test-" + Date.now());
+const configPath = join(testDir, "config.yaml");
+
+function writeTemplate(name: string, content: string): void {
+  const filePath = join(testDir, name);
+  mkdirSync(join(filePath, ".."), { recursive: true });
+  writeFileSync(filePath, content, "utf-8");
+}
+
+describe("resolveContentFiles", () => {
+  beforeEach(() => {
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("returns config unchanged when no contentFile is used", () => {
+    const raw: RawConfig = {
+      files: { "config.json": { content: { key: "value" } } },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    const result = resolveContentFiles(raw, configPath);
+    assert.deepEqual(result, raw);
+  });
+
+  test("loads JSON content file relative to the config", () => {
+    writeTemplate("templates/renovate.json", '{ "extends": ["base"] }');
+    const raw: RawConfig = {
+      files: {
+        "renovate.json": { contentFile: "./templates/renovate.json" },
+      },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    const result = resolveContentFiles(raw, configPath);
+    assert.deepEqual(result.files["renovate.json"], {
+      content: { extends: ["base"] },
+    });
+  });
+
+  test("loads YAML content file", () => {
+    writeTemplate("templates/trivy.yaml", "exit-code: 1\nscan:\n  - vuln\n");
+    const raw: RawConfig = {
+      files: {
+        "trivy.yaml": { contentFile: "templates/trivy.yaml", createOnly: true },
+      },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    const result = resolveContentFiles(raw, configPath);
+    assert.deepEqual(result.files["trivy.yaml"], {
+      createOnly: true,
+      content: { "exit-code": 1, scan: ["vuln"] },
+    });
+  });
+
+  test("loads other extensions as text", () => {
+    writeTemplate("templates/gitignore.txt", "node_modules/\ndist/\n");
+    const raw: RawConfig = {
+      files: { ".gitignore": { contentFile: "templates/gitignore.txt" } },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    const result = resolveContentFiles(raw, configPath);
+    assert.equal(result.files[".gitignore"].content, "node_modules/\ndist/\n");
+  });
+
+  test("loads content file for per-repo override", () => {
+    writeTemplate("overrides/legacy.json", '{ "legacy": true }');
+    const raw: RawConfig = {
+      files: { "config.json": { content: { key: "value" } } },
+      repos: [
+        {
+          git: "git@github.com:org/repo.git",
+          files: {
+            "config.json": {
+              override: true,
+              contentFile: "overrides/legacy.json",
+            },
+          },
+        },
+      ],
+    };
+
+    const result = resolveContentFiles(raw, configPath);
+    assert.deepEqual(result.repos[0].files?.["config.json"], {
+      override: true,
+      content: { legacy: true },
+    });
+  });
+
+  test("loads content file for profile overlays", () => {
+    writeTemplate("profiles/library.json", '{ "declaration": true }');
+    const raw: RawConfig = {
+      files: { "tsconfig.json": { content: {} } },
+      profiles: {
+        library: {
+          files: {
+            "tsconfig.json": { contentFile: "profiles/library.json" },
+          },
+        },
+      },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    const result = resolveContentFiles(raw, configPath);
+    assert.deepEqual(result.profiles?.library.files["tsconfig.json"], {
+      content: { declaration: true },
+    });
+  });
+
+  test("preserves file exclusions", () => {
+    const raw: RawConfig = {
+      files: { "config.json": { content: {} } },
+      repos: [
+        { git: "git@github.com:org/repo.git", files: { "config.json": false } },
+      ],
+    };
+
+    const result = resolveContentFiles(raw, configPath);
+    assert.equal(result.repos[0].files?.["config.json"], false);
+  });
+
+  test("does not mutate the input config", () => {
+    writeTemplate("base.json", '{ "key": "value" }');
+    const raw: RawConfig = {
+      files: { "config.json": { contentFile: "base.json" } },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    resolveContentFiles(raw, configPath);
+    assert.deepEqual(raw.files["config.json"], { contentFile: "base.json" });
+  });
+
+  test("throws when both content and contentFile are set", () => {
+    writeTemplate("base.json", "{}");
+    const raw: RawConfig = {
+      files: {
+        "config.json": { content: { key: "value" }, contentFile: "base.json" },
+      },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    assert.throws(
+      () => resolveContentFiles(raw, configPath),
+      /File 'config.json' cannot have both content and contentFile/,
+    );
+  });
+
+  test("throws with config path when content file is missing", () => {
+    const raw: RawConfig = {
+      files: { "config.json": { contentFile: "missing.json" } },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    assert.throws(
+      () => resolveContentFiles(raw, configPath),
+      (error: Error) =>
+        error.message.includes("contentFile 'missing.json' not found") &&
+        error.message.includes(configPath),
+    );
+  });
+
+  test("throws on path traversal outside the config directory", () => {
+    const raw: RawConfig = {
+      files: { "config.json": { contentFile: "../secrets.json" } },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    assert.throws(
+      () => resolveContentFiles(raw, configPath),
+      /contentFile '..\/secrets.json' must be inside the config directory/,
+    );
+  });
+
+  test("throws on absolute path outside the config directory", () => {
+    const raw: RawConfig = {
+      files: { "config.json": { contentFile: "/etc/passwd" } },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    assert.throws(
+      () => resolveContentFiles(raw, configPath),
+      /must be inside the config directory/,
+    );
+  });
+
+  test("throws when contentFile is not a string", () => {
+    const raw = {
+      files: { "config.json": { contentFile: 42 } },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    } as unknown as RawConfig;
+
+    assert.throws(
+      () => resolveContentFiles(raw, configPath),
+      /File 'config.json' contentFile must be a non-empty string/,
+    );
+  });
+
+  test("throws with repo context when override file is invalid JSON", () => {
+    writeTemplate("broken.json", "{ not json");
+    const raw: RawConfig = {
+      files: { "config.json": { content: {} } },
+      repos: [
+        {
+          git: "git@github.com:org/repo.git",
+          files: { "config.json": { contentFile: "broken.json" } },
+        },
+      ],
+    };
+
+    assert.throws(
+      () => resolveContentFiles(raw, configPath),
+      /Repo at index 0: file 'config.json' contentFile 'broken.json' could not be parsed/,
+    );
+  });
+});
@@ -0,0 +1,175 @@
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, isAbsolute, relative, resolve } from "node:path";
+import { parse } from "yaml";
+import type {
+  ContentValue,
+  RawConfig,
+  RawFileConfig,
+  RawProfile,
+  RawProfileFileOverlay,
+  RawRepoFileOverride,
+} from "./config.js";
+import { isPlainObject } from "./merge.js";
+
+/**
+ * Loads a content file, parsing it as JSON, YAML or text based on its extension.
+ * @param contentFile - Path from the config, relative to the config file
+ * @param configPath - Path of the config file that references contentFile
+ * @param context - Description of the referencing entry for error messages
+ * @throws Error if the path escapes the config directory, is missing or cannot be parsed
+ */
+function loadContentFile(
+  contentFile: unknown,
+  configPath: string,
+  context: string,
+): ContentValue {
+  if (typeof contentFile !== "string" || contentFile.length === 0) {
+    throw new Error(
+      `${context} contentFile must be a non-empty string (in ${configPath})`,
+    );
+  }
+
+  const configDir = dirname(resolve(configPath));
+  const filePath = resolve(configDir, contentFile);
+  const relativePath = relative(configDir, filePath);
+  if (relativePath.startsWith("..") || isAbsolute(relativePath)) {
+    throw new Error(
+      `${context} contentFile '${contentFile}' must be inside the config directory (in ${configPath})`,
+    );
+  }
+
+  if (!existsSync(filePath)) {
+    throw new Error(
+      `${context} contentFile '${contentFile}' not found at ${filePath} (in ${configPath})`,
+    );
+  }
+
+  const text = readFileSync(filePath, "utf-8");
+  const ext = filePath.toLowerCase().split(".").pop();
+
+  try {
+    if (ext === "json") {
+      return JSON.parse(text) as ContentValue;
+    }
+    if (ext === "yaml" || ext === "yml") {
+      return parse(text) as ContentValue;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `${context} contentFile '${contentFile}' could not be parsed (in ${configPath}): ${message}`,
+    );
+  }
+
+  return text;
+}
+
+/**
+ * Replaces contentFile with the loaded content on a file config or override.
+ * Returns the entry unchanged if it has no contentFile.
+ */
+function resolveEntry<
+  T extends RawFileConfig | RawRepoFileOverride | RawProfileFileOverlay,
+>(entry: T, configPath: string, context: string): T {
+  if (!isPlainObject(entry) || !("contentFile" in entry)) {
+    return entry;
+  }
+
+  if (entry.content !== undefined) {
+    throw new Error(
+      `${context} cannot have both content and contentFile (in ${configPath})`,
+    );
+  }
+
+  const { contentFile, ...rest } = entry;
+  return {
+    ...rest,
+    content: loadContentFile(contentFile, configPath, context),
+  } as T;
+}
+
+/**
+ * Resolves contentFile references in a profile's file overlays.
+ */
+function resolveProfile(
+  profile: RawProfile,
+  name: string,
+  configPath: string,
+): RawProfile {
+  if (!isPlainObject(profile) || !isPlainObject(profile.files)) {
+    return profile;
+  }
+
+  const files: Record<string, RawProfileFileOverlay> = {};
+  for (const [fileName, overlay] of Object.entries(profile.files)) {
+    files[fileName] = resolveEntry(
+      overlay,
+      configPath,
+      `Profile '${name}': file '${fileName}'`,
+    );
+  }
+  return { ...profile, files };
+}
+
+/**
+ * Resolves contentFile references in root file configs, profile overlays
+ * and per-repo file overrides. Paths are relative to the config file and must not
+ * escape its directory. The input config is not mutated.
+ *
+ * @param raw - The parsed config
+ * @param configPath - Path of the config file (used to resolve paths and in errors)
+ * @returns A config where every contentFile is replaced by its content
+ */
+export function resolveContentFiles(
+  raw: RawConfig,
+  configPath: string,
+): RawConfig {
+  if (!isPlainObject(raw)) {
+    return raw;
+  }
+
+  const result: RawConfig = { ...raw };
+
+  if (isPlainObject(raw.files)) {
+    result.files = {};
+    for (const [fileName, fileConfig] of Object.entries(raw.files)) {
+      result.files[fileName] = resolveEntry(
+        fileConfig,
+        configPath,
+        `File '${fileName}'`,
+      );
+    }
+  }
+
+  if (isPlainObject(raw.profiles)) {
+    result.profiles = {};
+    for (const [name, profile] of Object.entries(raw.profiles)) {
+      result.profiles[name] = resolveProfile(profile, name, configPath);
+    }
+  }
+
+  if (Array.isArray(raw.repos)) {
+    result.repos = raw.repos.map((repo, i) => {
+      if (!isPlainObject(repo) || !isPlainObject(repo.files)) {
+        return repo;
+      }
+
+      const files: Record<string, RawRepoFileOverride | false> = {};
+      for (const [fileName, override] of Object.entries(
+        repo.files as Record<string, RawRepoFileOverride | false>,
+      )) {
+        files[fileName] =
+          override === false
+            ? false
+            : resolveEntry(
+                override,
+                configPath,
+                `Repo at index ${i}: file '${fileName}'`,
+              );
+      }
+      return { ...repo, files };
+    });
+  }
+
+  return result;
+}
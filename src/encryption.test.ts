@@ -0,0 +1,248 @@
+import { test, describe, beforeEach, afterEach } from "node:test";
+import { strict as assert } from "node:assert";
+import { randomBytes } from "node:crypto";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { LineCounter, parseDocument } from "yaml";
+import {
+  decryptDocument,
+  decryptValue,
+  encryptConfigValue,
+  encryptedTag,
+  encryptValue,
+  loadEncryptionKey,
+  parseValuePath,
+} from "./encryption.js";
+import { clearSecrets, redactSecrets } from "./redact.js";
+
+const key = randomBytes(32);
+
+/**
+ * Returns the payload inside ENC[...].
+ */
+function payloadOf(value: string): string {
+  return value.slice("ENC[".length, -1);
+}
+
+describe("encryptValue / decryptValue", () => {
+  test("round-trips a value", () => {
+    const encrypted = encryptValue("s3cr3t ✓", key);
+    assert.match(encrypted, /^ENC\[[A-Za-z0-9+/]+={0,2}\]$/);
+    assert.equal(decryptValue(payloadOf(encrypted), key), "s3cr3t ✓");
+  });
+
+  test("uses a fresh IV for every value", () => {
+    assert.notEqual(encryptValue("same", key), encryptValue("same", key));
+  });
+
+  test("fails with the wrong key", () => {
+    const encrypted = encryptValue("s3cr3t", key);
+    assert.throws(() => decryptValue(payloadOf(encrypted), randomBytes(32)));
+  });
+
+  test("fails for a modified payload", () => {
+    const payload = Buffer.from(
+      payloadOf(encryptValue("s3cr3t", key)),
+      "base64",
+    );
+    payload[payload.length - 1] ^= 1;
+    assert.throws(() => decryptValue(payload.toString("base64"), key));
+  });
+
+  test("fails for a truncated payload", () => {
+    assert.throws(() => decryptValue("AAAA", key), /too short/);
+  });
+});
+
+describe("loadEncryptionKey", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `encryption-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("reads a base64 key file", () => {
+    const keyFile = join(testDir, "key");
+    writeFileSync(keyFile, `${key.toString("base64")}\n`);
+    assert.deepEqual(loadEncryptionKey({ keyFile, env: {} }), key);
+  });
+
+  test("prefers the key file over the environment", () => {
+    const keyFile = join(testDir, "key");
+    writeFileSync(keyFile, key.toString("base64"));
+    const env = { JSON_CONFIG_SYNC_KEY: randomBytes(32).toString("base64") };
+    assert.deepEqual(loadEncryptionKey({ keyFile, env }), key);
+  });
+
+  test("reads the key from JSON_CONFIG_SYNC_KEY", () => {
+    const env = { JSON_CONFIG_SYNC_KEY: key.toString("base64") };
+    assert.deepEqual(loadEncryptionKey({ env }), key);
+  });
+
+  test("returns undefined without a key", () => {
+    assert.equal(loadEncryptionKey({ env: {} }), undefined);
+  });
+
+  test("throws for a missing key file", () => {
+    assert.throws(
+      () => loadEncryptionKey({ keyFile: join(testDir, "missing") }),
+      /Key file not found/,
+    );
+  });
+
+  test("throws for a key of the wrong length", () => {
+    const env = { JSON_CONFIG_SYNC_KEY: randomBytes(16).toString("base64") };
+    assert.throws(
+      () => loadEncryptionKey({ env }),
+      /Encryption key from JSON_CONFIG_SYNC_KEY must be 32 bytes, base64-encoded/,
+    );
+  });
+});
+
+describe("decryptDocument", () => {
+  const env = { JSON_CONFIG_SYNC_KEY: key.toString("base64") };
+
+  afterEach(() => {
+    clearSecrets();
+  });
+
+  function decrypt(
+    yaml: string,
+    options: Parameters<typeof decryptDocument>[3] = { env },
+  ): unknown {
+    const lineCounter = new LineCounter();
+    const document = parseDocument(yaml, {
+      lineCounter,
+      customTags: [encryptedTag],
+    });
+    decryptDocument(document, lineCounter, "config.yaml", options);
+    return document.toJS();
+  }
+
+  test("decrypts ENC[...] values and !encrypted scalars", () => {
+    const enc = encryptValue("one", key);
+    const tagged = payloadOf(encryptValue("two", key));
+    assert.deepEqual(
+      decrypt(`a: ${enc}\nb:\n  - !encrypted ${tagged}\nc: plain\n`),
+      { a: "one", b: ["two"], c: "plain" },
+    );
+  });
+
+  test("registers decrypted values for redaction", () => {
+    decrypt(`token: ${encryptValue("s3cr3t", key)}\n`);
+    assert.equal(redactSecrets("token s3cr3t"), "token ***");
+  });
+
+  test("leaves documents without encrypted values alone without a key", () => {
+    assert.deepEqual(decrypt("a: ENC[not base64!]\n", { env: {} }), {
+      a: "ENC[not base64!]",
+    });
+  });
+
+  test("reports the path of a value that cannot be decrypted", () => {
+    const enc = encryptValue("s3cr3t", randomBytes(32));
+    assert.throws(
+      () =>
+        decrypt(
+          `files:\n  app.json:\n    content:\n      list:\n        - a\n        - ${enc}\n`,
+        ),
+      /^Error: config\.yaml:6:11: files\["app\.json"\]\.content\.list\[1\] could not be decrypted \(wrong key or corrupted value\)$/,
+    );
+  });
+
+  test("reports the path of an encrypted value without a key", () => {
+    assert.throws(
+      () => decrypt(`vars:\n  token: ${encryptValue("x", key)}\n`, { env: {} }),
+      /config\.yaml:2:10: vars\.token is encrypted but no key was given; use --key-file or set JSON_CONFIG_SYNC_KEY/,
+    );
+  });
+});
+
+describe("parseValuePath", () => {
+  test("parses names, indexes and quoted names", () => {
+    assert.deepEqual(
+      parseValuePath('files["app.json"].content.servers[0].$password'),
+      ["files", "app.json", "content", "servers", 0, "$password"],
+    );
+  });
+
+  test("parses escaped quotes in quoted names", () => {
+    assert.deepEqual(parseValuePath('vars["a\\"b"]'), ["vars", 'a"b']);
+  });
+
+  test("throws for invalid paths", () => {
+    for (const path of ["", ".vars", "vars..token", "files[app.json]"]) {
+      assert.throws(() => parseValuePath(path), /path/, path);
+    }
+  });
+});
+
+describe("encryptConfigValue", () => {
+  let testDir: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `encrypt-config-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    configPath = join(testDir, "config.yaml");
+    writeFileSync(
+      configPath,
+      `# Shared config
+files:
+  app.json:
+    content:
+      token: s3cr3t # rotated yearly
+      port: 8080
+      hosts: [a, b]
+`,
+    );
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("replaces the value and keeps the rest of the file", () => {
+    encryptConfigValue(configPath, 'files["app.json"].content.token', key);
+
+    const text = readFileSync(configPath, "utf-8");
+    const match = /token: (ENC\[\S+\]) # rotated yearly\n/.exec(text);
+    assert.ok(match, text);
+    assert.equal(decryptValue(payloadOf(match[1]), key), "s3cr3t");
+    assert.ok(text.startsWith("# Shared config\n"));
+    assert.ok(text.includes("port: 8080\n"));
+    assert.ok(text.includes("hosts: [a, b]\n"));
+  });
+
+  test("encrypts array items", () => {
+    encryptConfigValue(configPath, 'files["app.json"].content.hosts[1]', key);
+    assert.match(readFileSync(configPath, "utf-8"), /hosts: \[a, "ENC\[/);
+  });
+
+  test("throws for already encrypted values", () => {
+    encryptConfigValue(configPath, 'files["app.json"].content.token', key);
+    assert.throws(
+      () =>
+        encryptConfigValue(configPath, 'files["app.json"].content.token', key),
+      /files\["app\.json"\]\.content\.token is already encrypted/,
+    );
+  });
+
+  test("throws for missing and non-string values", () => {
+    assert.throws(
+      () => encryptConfigValue(configPath, "vars.token", key),
+      /vars\.token was not found/,
+    );
+    assert.throws(
+      () =>
+        encryptConfigValue(configPath, 'files["app.json"].content.port', key),
+      /must be a string value to be encrypted/,
+    );
+  });
+});
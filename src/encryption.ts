@@ -0,0 +1,275 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import {
+  isPair,
+  isScalar,
+  isSeq,
+  parseDocument,
+  visit,
+  type Document,
+  type LineCounter,
+  type ScalarTag,
+} from "yaml";
+import { formatSchemaPath, type SchemaPath } from "./json-schema.js";
+import { registerSecret } from "./redact.js";
+
+/**
+ * Encrypted config values: `ENC[...]` strings or scalars tagged
+ * `!encrypted`, holding base64 of IV + AES-256-GCM ciphertext + auth tag.
+ */
+
+export const KEY_ENV_VAR = "JSON_CONFIG_SYNC_KEY";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+const ENCRYPTED_VALUE_REGEX = /^ENC\[([A-Za-z0-9+/]+={0,2})\]$/;
+
+/**
+ * The !encrypted tag holds the base64 payload without the ENC[...] wrapper.
+ */
+export const encryptedTag: ScalarTag = {
+  tag: "!encrypted",
+  resolve: (value) => value,
+};
+
+export interface KeyOptions {
+  // Path to a file holding the base64-encoded key
+  keyFile?: string;
+  // Environment checked for JSON_CONFIG_SYNC_KEY (defaults to process.env)
+  env?: Record<string, string | undefined>;
+}
+
+function parseKey(text: string, source: string): Buffer {
+  const key = Buffer.from(text.trim(), "base64");
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(
+      `Encryption key from ${source} must be ${KEY_LENGTH} bytes, base64-encoded (e.g. from 'openssl rand -base64 32')`,
+    );
+  }
+  return key;
+}
+
+/**
+ * Loads the encryption key from the key file, or else from the
+ * JSON_CONFIG_SYNC_KEY variable. Returns undefined if neither is set.
+ */
+export function loadEncryptionKey(
+  options: KeyOptions = {},
+): Buffer | undefined {
+  if (options.keyFile !== undefined) {
+    if (!existsSync(options.keyFile)) {
+      throw new Error(`Key file not found: ${options.keyFile}`);
+    }
+    return parseKey(readFileSync(options.keyFile, "utf-8"), options.keyFile);
+  }
+
+  const value = (options.env ?? process.env)[KEY_ENV_VAR];
+  return value ? parseKey(value, KEY_ENV_VAR) : undefined;
+}
+
+/**
+ * Encrypts a value into ENC[...] form with a fresh random IV.
+ */
+export function encryptValue(plaintext: string, key: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf-8"),
+    cipher.final(),
+  ]);
+  const payload = Buffer.concat([iv, ciphertext, cipher.getAuthTag()]);
+  return `ENC[${payload.toString("base64")}]`;
+}
+
+/**
+ * Decrypts a base64 payload (the part inside ENC[...]).
+ * @throws Error if the key is wrong or the payload was modified
+ */
+export function decryptValue(payload: string, key: Buffer): string {
+  const data = Buffer.from(payload.trim(), "base64");
+  if (data.length < IV_LENGTH + AUTH_TAG_LENGTH) {
+    throw new Error("Encrypted value is too short");
+  }
+
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    key,
+    data.subarray(0, IV_LENGTH),
+  );
+  decipher.setAuthTag(data.subarray(data.length - AUTH_TAG_LENGTH));
+  return Buffer.concat([
+    decipher.update(data.subarray(IV_LENGTH, data.length - AUTH_TAG_LENGTH)),
+    decipher.final(),
+  ]).toString("utf-8");
+}
+
+/**
+ * Returns the payload of an encrypted scalar, or undefined for plain values.
+ */
+function getEncryptedPayload(node: {
+  tag?: string;
+  value: unknown;
+}): string | undefined {
+  if (node.tag === encryptedTag.tag) {
+    return String(node.value);
+  }
+  if (typeof node.value === "string") {
+    return ENCRYPTED_VALUE_REGEX.exec(node.value)?.[1];
+  }
+  return undefined;
+}
+
+/**
+ * Builds the path of a node from its ancestors, as given by yaml's visit().
+ */
+function getNodePath(ancestors: readonly unknown[], node: unknown): SchemaPath {
+  const path: SchemaPath = [];
+  const chain = [...ancestors, node];
+  for (let i = 0; i < chain.length - 1; i++) {
+    const parent = chain[i];
+    if (isPair(parent) && isScalar(parent.key)) {
+      path.push(String(parent.key.value));
+    } else if (isSeq(parent)) {
+      path.push(parent.items.indexOf(chain[i + 1] as never));
+    }
+  }
+  return path;
+}
+
+/**
+ * Decrypts every encrypted scalar value of a parsed config in place and
+ * registers the plaintext for redaction. The key is only loaded when the
+ * document has an encrypted value. Errors name the file, line, column and
+ * path of the value.
+ */
+export function decryptDocument(
+  document: Document,
+  lineCounter: LineCounter,
+  filePath: string,
+  options: KeyOptions = {},
+): void {
+  let key: Buffer | undefined;
+
+  visit(document, {
+    Scalar(visitKey, node, ancestors) {
+      if (visitKey === "key") return;
+
+      const payload = getEncryptedPayload(node);
+      if (payload === undefined) return;
+
+      const { line, col } = lineCounter.linePos(node.range?.[0] ?? 0);
+      const location = `${filePath}:${line}:${col}: ${formatSchemaPath(getNodePath(ancestors, node))}`;
+
+      key ??= loadEncryptionKey(options);
+      if (!key) {
+        throw new Error(
+          `${location} is encrypted but no key was given; use --key-file or set ${KEY_ENV_VAR}`,
+        );
+      }
+
+      let plaintext: string;
+      try {
+        plaintext = decryptValue(payload, key);
+      } catch {
+        throw new Error(
+          `${location} could not be decrypted (wrong key or corrupted value)`,
+        );
+      }
+
+      registerSecret(plaintext);
+      node.value = plaintext;
+      node.tag = undefined;
+    },
+  });
+}
+
+// One path segment: .name, [0] or ["quoted name"]
+const PATH_SEGMENT_REGEX =
+  /^(?:\.?([A-Za-z_$][A-Za-z0-9_$]*)|\[(\d+)\]|\[("(?:[^"\\]|\\.)*")\])/;
+
+/**
+ * Parses a value path in the format used by error messages, e.g.
+ * files["config.json"].content.servers[0].password.
+ */
+export function parseValuePath(path: string): SchemaPath {
+  const segments: SchemaPath = [];
+  let rest = path;
+
+  while (rest !== "") {
+    const match =
+      segments.length === 0 && rest.startsWith(".")
+        ? null
+        : PATH_SEGMENT_REGEX.exec(rest);
+    if (!match) {
+      throw new Error(
+        `Invalid value path '${path}': use names, [index] and ["quoted.name"], e.g. files["config.json"].content.token`,
+      );
+    }
+
+    const [text, name, index, quoted] = match;
+    if (name !== undefined) {
+      segments.push(name);
+    } else if (index !== undefined) {
+      segments.push(Number(index));
+    } else {
+      segments.push(JSON.parse(quoted) as string);
+    }
+    rest = rest.slice(text.length);
+  }
+
+  if (segments.length === 0) {
+    throw new Error("Value path must not be empty");
+  }
+  return segments;
+}
+
+/**
+ * Encrypts a plaintext string value of a YAML config file in place.
+ * The rest of the file, including comments, is kept.
+ *
+ * @param filePath - The config file to rewrite
+ * @param valuePath - Path of the value, e.g. files["app.json"].content.token
+ * @param key - The encryption key
+ */
+export function encryptConfigValue(
+  filePath: string,
+  valuePath: string,
+  key: Buffer,
+): void {
+  if (!existsSync(filePath)) {
+    throw new Error(`Config file not found: ${filePath}`);
+  }
+
+  const path = parseValuePath(valuePath);
+  const document = parseDocument(readFileSync(filePath, "utf-8"), {
+    customTags: [encryptedTag],
+  });
+  if (document.errors.length > 0) {
+    throw new Error(
+      `Failed to parse YAML config at ${filePath}: ${document.errors[0].message}`,
+    );
+  }
+
+  const node = document.getIn(path, true);
+  if (node === undefined) {
+    throw new Error(`${filePath}: ${valuePath} was not found`);
+  }
+  if (!isScalar(node) || typeof node.value !== "string") {
+    throw new Error(
+      `${filePath}: ${valuePath} must be a string value to be encrypted`,
+    );
+  }
+  if (getEncryptedPayload(node) !== undefined) {
+    throw new Error(`${filePath}: ${valuePath} is already encrypted`);
+  }
+
+  node.value = encryptValue(node.value, key);
+  writeFileSync(
+    filePath,
+    document.toString({ flowCollectionPadding: false }),
+    "utf-8",
+  );
+}
@@ -0,0 +1,133 @@
+import { test, describe, beforeEach, afterEach } from "node:test";
+import { strict as assert } from "node:assert";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  parseEnvFile,
+  loadEnvFile,
+  parseSetOption,
+  buildInterpolationEnv,
+} from "./env-file.js";
+
+describe("parseEnvFile", () => {
+  test("parses KEY=VALUE lines, skipping blanks and comments", () => {
+    const values = parseEnvFile(
+      `# Shared settings
+ORG=my-org
+
+export REGION = eu-west-1
+EMPTY=
+`,
+      ".env",
+    );
+    assert.deepEqual(values, { ORG: "my-org", REGION: "eu-west-1", EMPTY: "" });
+  });
+
+  test("strips inline comments from unquoted values", () => {
+    assert.deepEqual(parseEnvFile("URL=https://x.dev/#a # comment", ".env"), {
+      URL: "https://x.dev/#a",
+    });
+  });
+
+  test("keeps single-quoted values literally", () => {
+    assert.deepEqual(parseEnvFile("A='x # y \\n ${B}'", ".env"), {
+      A: "x # y \\n ${B}",
+    });
+  });
+
+  test("unescapes double-quoted values", () => {
+    assert.deepEqual(
+      parseEnvFile('A="line1\\nline2 \\"quoted\\"" # comment', ".env"),
+      { A: 'line1\nline2 "quoted"' },
+    );
+  });
+
+  test("later lines win", () => {
+    assert.deepEqual(parseEnvFile("A=1\nA=2", ".env"), { A: "2" });
+  });
+
+  test("reports the line of invalid entries without the value", () => {
+    assert.throws(
+      () => parseEnvFile("A=1\nsecret-value-only", ".env"),
+      (err: Error) =>
+        err.message === ".env:2: expected KEY=VALUE" &&
+        !err.message.includes("secret"),
+    );
+    assert.throws(
+      () => parseEnvFile("1A=x", ".env"),
+      /\.env:1: invalid key '1A'/,
+    );
+    assert.throws(
+      () => parseEnvFile('TOKEN="secret', ".env"),
+      (err: Error) =>
+        err.message ===
+          ".env:1: unterminated or malformed quoted value for 'TOKEN'" &&
+        !err.message.includes("secret"),
+    );
+    assert.throws(
+      () => parseEnvFile("TOKEN='a' b", ".env"),
+      /\.env:1: unterminated or malformed quoted value for 'TOKEN'/,
+    );
+  });
+});
+
+describe("parseSetOption", () => {
+  test("splits on the first '='", () => {
+    assert.deepEqual(parseSetOption("URL=a=b"), ["URL", "a=b"]);
+    assert.deepEqual(parseSetOption("EMPTY="), ["EMPTY", ""]);
+  });
+
+  test("throws without echoing the option", () => {
+    for (const option of ["secret-token", "=secret", "BAD KEY=secret"]) {
+      assert.throws(
+        () => parseSetOption(option),
+        (err: Error) =>
+          err.message.startsWith("Invalid --set option: expected KEY=VALUE") &&
+          !err.message.includes("secret"),
+      );
+    }
+  });
+});
+
+describe("buildInterpolationEnv", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `env-file-test-${Date.now()}`);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "base.env"), "ORG=base-org\nREGION=eu\n");
+    writeFileSync(join(dir, "prod.env"), "ORG=prod-org\n");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("layers env files and --set values over the base env", () => {
+    const env = buildInterpolationEnv(
+      [join(dir, "base.env"), join(dir, "prod.env")],
+      ["REGION=us", "EXTRA=1"],
+      { ORG: "from-env", HOME: "/home/me" },
+    );
+    assert.deepEqual(env, {
+      ORG: "prod-org",
+      REGION: "us",
+      EXTRA: "1",
+      HOME: "/home/me",
+    });
+  });
+
+  test("does not modify the base env", () => {
+    const baseEnv = { ORG: "from-env" };
+    buildInterpolationEnv([], ["ORG=x"], baseEnv);
+    assert.deepEqual(baseEnv, { ORG: "from-env" });
+  });
+
+  test("throws for a missing env file", () => {
+    assert.throws(
+      () => loadEnvFile(join(dir, "missing.env")),
+      /Env file not found: .*missing\.env/,
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import { existsSync, readFileSync } from "node:fs";
+
+/**
+ * Loading of interpolation values from --env-file and --set options.
+ * Error messages name files, lines and keys but never values, which are
+ * often secrets.
+ */
+
+// Names usable as ${NAME} placeholders
+const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+// KEY=VALUE with an optional "export " prefix
+const ENV_LINE_REGEX = /^(?:export\s+)?([^=\s]+)\s*=\s*(.*)$/;
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  '"': '"',
+  "\\": "\\",
+};
+
+/**
+ * Finds the index of the quote closing a value that starts with one,
+ * skipping backslash escapes in double quotes. Returns -1 if unterminated.
+ */
+function findClosingQuote(raw: string): number {
+  const quote = raw[0];
+  for (let i = 1; i < raw.length; i++) {
+    if (quote === '"' && raw[i] === "\\") {
+      i++;
+    } else if (raw[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parses a dotenv value: single quotes are literal, double quotes support
+ * \n, \r, \t, \" and \\ escapes, and unquoted values end at " #".
+ * Returns undefined for a malformed quoted value.
+ */
+function parseEnvValue(raw: string): string | undefined {
+  const quote = raw[0];
+
+  if (quote === "'" || quote === '"') {
+    const close = findClosingQuote(raw);
+    const rest = close === -1 ? "" : raw.slice(close + 1).trim();
+    if (close === -1 || (rest !== "" && !rest.startsWith("#"))) {
+      return undefined;
+    }
+
+    const inner = raw.slice(1, close);
+    return quote === "'"
+      ? inner
+      : inner.replace(
+          /\\(.)/g,
+          (match, ch: string) => DOUBLE_QUOTE_ESCAPES[ch] ?? match,
+        );
+  }
+
+  const commentIndex = raw.search(/\s#/);
+  return (commentIndex === -1 ? raw : raw.slice(0, commentIndex)).trim();
+}
+
+/**
+ * Parses dotenv-style text into a map of values.
+ * @param text - The file content
+ * @param filePath - Path used in error messages
+ */
+export function parseEnvFile(
+  text: string,
+  filePath: string,
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === "" || line.startsWith("#")) continue;
+
+    const match = ENV_LINE_REGEX.exec(line);
+    if (!match) {
+      throw new Error(`${filePath}:${i + 1}: expected KEY=VALUE`);
+    }
+
+    const [, key, rawValue] = match;
+    if (!ENV_KEY_PATTERN.test(key)) {
+      throw new Error(`${filePath}:${i + 1}: invalid key '${key}'`);
+    }
+
+    const value = parseEnvValue(rawValue);
+    if (value === undefined) {
+      throw new Error(
+        `${filePath}:${i + 1}: unterminated or malformed quoted value for '${key}'`,
+      );
+    }
+    values[key] = value;
+  }
+
+  return values;
+}
+
+/**
+ * Reads and parses a dotenv file.
+ */
+export function loadEnvFile(filePath: string): Record<string, string> {
+  if (!existsSync(filePath)) {
+    throw new Error(`Env file not found: ${filePath}`);
+  }
+  return parseEnvFile(readFileSync(filePath, "utf-8"), filePath);
+}
+
+/**
+ * Parses a --set KEY=VALUE option. The value is everything after the
+ * first "=" and may be empty.
+ */
+export function parseSetOption(option: string): [string, string] {
+  const index = option.indexOf("=");
+  const key = index === -1 ? "" : option.slice(0, index);
+  if (!ENV_KEY_PATTERN.test(key)) {
+    throw new Error(
+      "Invalid --set option: expected KEY=VALUE with KEY made of letters, digits, '_', '.' or '-'",
+    );
+  }
+  return [key, option.slice(index + 1)];
+}
+
+/**
+ * Builds the environment used for interpolation: process.env, then each
+ * env file in order, then --set values (later sources win).
+ */
+export function buildInterpolationEnv(
+  envFiles: string[],
+  sets: string[],
+  baseEnv: Record<string, string | undefined> = process.env,
+): Record<string, string | undefined> {
+  const env = { ...baseEnv };
+
+  for (const filePath of envFiles) {
+    Object.assign(env, loadEnvFile(filePath));
+  }
+  for (const option of sets) {
+    const [key, value] = parseSetOption(option);
+    env[key] = value;
+  }
+
+  return env;
+}
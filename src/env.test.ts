@@ -1,6 +1,12 @@
 import { test, describe, beforeEach, afterEach } from "node:test";
 import { strict as assert } from "node:assert";
-import { interpolateEnvVars, type EnvInterpolationOptions } from "./env.js";
+import {
+  interpolateEnvVars,
+  interpolateEnvVarsInText,
+  findSecretPlaceholders,
+  findVarPlaceholders,
+  type EnvInterpolationOptions,
+} from "./env.js";
 
 describe("interpolateEnvVars", () => {
   const originalEnv = { ...process.env };
@@ -179,3 +185,461 @@ describe("interpolateEnvVars", () => {
     assert.deepEqual(result, {});
   });
 });
+
+describe("interpolateEnvVars with vars", () => {
+  beforeEach(() => {
+    process.env.TEST_VAR = "from-env";
+  });
+
+  afterEach(() => {
+    delete process.env.TEST_VAR;
+  });
+
+  test("replaces placeholders with vars", () => {
+    const result = interpolateEnvVars(
+      { key: "${repo.name}" },
+      { strict: true, vars: { "repo.name": "my-repo" } },
+    );
+    assert.deepEqual(result, { key: "my-repo" });
+  });
+
+  test("vars take precedence over env", () => {
+    const result = interpolateEnvVars(
+      { key: "${TEST_VAR}" },
+      { strict: true, vars: { TEST_VAR: "from-vars" } },
+    );
+    assert.deepEqual(result, { key: "from-vars" });
+  });
+
+  test("falls back to env when var is not defined", () => {
+    const result = interpolateEnvVars(
+      { key: "${TEST_VAR}" },
+      { strict: true, vars: {} },
+    );
+    assert.deepEqual(result, { key: "from-env" });
+  });
+
+  test("reads from the given env instead of process.env", () => {
+    const result = interpolateEnvVars(
+      { key: "${TEST_VAR:-none}" },
+      { strict: true, env: {} },
+    );
+    assert.deepEqual(result, { key: "none" });
+  });
+
+  test("leaves deferred vars as-is", () => {
+    const result = interpolateEnvVars(
+      { dir: "${target.dir}", name: "${target.name:-x}", env: "${TEST_VAR}" },
+      { strict: true, deferred: ["target.dir", "target.name"] },
+    );
+    assert.deepEqual(result, {
+      dir: "${target.dir}",
+      name: "${target.name:-x}",
+      env: "from-env",
+    });
+  });
+});
+
+describe("interpolateEnvVars escaping", () => {
+  beforeEach(() => {
+    process.env.TEST_VAR = "from-env";
+  });
+
+  afterEach(() => {
+    delete process.env.TEST_VAR;
+  });
+
+  test("turns $${VAR} into a literal ${VAR}", () => {
+    const result = interpolateEnvVars({ key: "$${TEST_VAR}" });
+    assert.deepEqual(result, { key: "${TEST_VAR}" });
+  });
+
+  test("does not require escaped vars to be set", () => {
+    const result = interpolateEnvVars({ home: "$${HOME_NOT_SET}/bin" });
+    assert.deepEqual(result, { home: "${HOME_NOT_SET}/bin" });
+  });
+
+  test("keeps modifiers of escaped placeholders", () => {
+    const result = interpolateEnvVars({ key: "$${VAR:-default}" });
+    assert.deepEqual(result, { key: "${VAR:-default}" });
+  });
+
+  test("escapes GitHub Actions expressions", () => {
+    const result = interpolateEnvVars({
+      token: "$${{ secrets.GITHUB_TOKEN }}",
+    });
+    assert.deepEqual(result, { token: "${{ secrets.GITHUB_TOKEN }}" });
+  });
+
+  test("mixes escaped and interpolated placeholders", () => {
+    const result = interpolateEnvVars({
+      script: "echo ${TEST_VAR} $${TEST_VAR}",
+    });
+    assert.deepEqual(result, { script: "echo from-env ${TEST_VAR}" });
+  });
+
+  test("escapes in nested objects and arrays", () => {
+    const result = interpolateEnvVars({
+      jobs: {
+        build: {
+          steps: [{ run: "echo $${HOME}" }, { env: { VALUE: "${TEST_VAR}" } }],
+        },
+      },
+      args: ["$${1}", "${TEST_VAR}"],
+    });
+    assert.deepEqual(result, {
+      jobs: {
+        build: {
+          steps: [{ run: "echo ${HOME}" }, { env: { VALUE: "from-env" } }],
+        },
+      },
+      args: ["${1}", "from-env"],
+    });
+  });
+
+  test("keeps escaped deferred vars for the later pass", () => {
+    const result = interpolateEnvVars(
+      { key: "$${target.dir}" },
+      { strict: true, deferred: ["target.dir"] },
+    );
+    assert.deepEqual(result, { key: "$${target.dir}" });
+  });
+
+  test("keeps all escapes with keepEscapes", () => {
+    const result = interpolateEnvVars(
+      { key: "$${HOME:-/root} $${X:?need X} ${TEST_VAR}" },
+      { strict: true, keepEscapes: true },
+    );
+    assert.deepEqual(result, { key: "$${HOME:-/root} $${X:?need X} from-env" });
+  });
+
+  test("resolves only the listed names with only", () => {
+    const result = interpolateEnvVars(
+      {
+        key: "$${X:?msg} ${X:?msg} ${TEST_VAR} ${target.dir}",
+        port: "${P:int}",
+      },
+      { strict: true, vars: { "target.dir": "api" }, only: ["target.dir"] },
+    );
+    assert.deepEqual(result, {
+      key: "${X:?msg} ${X:?msg} ${TEST_VAR} api",
+      port: "${P:int}",
+    });
+  });
+
+  test("escapes shell forms outside the placeholder syntax", () => {
+    const result = interpolateEnvVarsInText([
+      "echo $${VAR:=x} $${VAR:+alt} $${PATH:0:4} $${NAME#prefix} $${#ARR[@]}",
+      "$${VAR:-${TEST_VAR}} ${TEST_VAR}",
+    ]);
+    assert.deepEqual(result, [
+      "echo ${VAR:=x} ${VAR:+alt} ${PATH:0:4} ${NAME#prefix} ${#ARR[@]}",
+      "${VAR:-${TEST_VAR}} from-env",
+    ]);
+  });
+
+  test("escapes expressions that contain colons and braces", () => {
+    const result = interpolateEnvVars({
+      os: "$${{ runner.os == 'Linux' && 'a:b' || 'c' }}",
+      json: "$${{ toJSON(fromJSON('{\"a\": 1}')) }}",
+    });
+    assert.deepEqual(result, {
+      os: "${{ runner.os == 'Linux' && 'a:b' || 'c' }}",
+      json: "${{ toJSON(fromJSON('{\"a\": 1}')) }}",
+    });
+  });
+
+  test("leaves an escape without a closing brace as-is", () => {
+    assert.equal(
+      interpolateEnvVarsInText("${TEST_VAR} costs $${"),
+      "from-env costs $${",
+    );
+  });
+
+  test("escapes in text content", () => {
+    const result = interpolateEnvVarsInText([
+      "export PATH=$${HOME}/bin:$${PATH}",
+      "# ${TEST_VAR}",
+    ]);
+    assert.deepEqual(result, ["export PATH=${HOME}/bin:${PATH}", "# from-env"]);
+  });
+});
+
+describe("interpolateEnvVars casts", () => {
+  beforeEach(() => {
+    process.env.TEST_PORT = "8080";
+    process.env.TEST_FLAG = "TRUE";
+    process.env.TEST_LIST = '["a", "b"]';
+    process.env.TEST_RATIO = "0.5";
+  });
+
+  afterEach(() => {
+    delete process.env.TEST_PORT;
+    delete process.env.TEST_FLAG;
+    delete process.env.TEST_LIST;
+    delete process.env.TEST_RATIO;
+  });
+
+  test("casts whole-value placeholders", () => {
+    const result = interpolateEnvVars({
+      port: "${TEST_PORT:int}",
+      ratio: "${TEST_RATIO:number}",
+      enabled: "${TEST_FLAG:bool}",
+      list: "${TEST_LIST:json}",
+    });
+    assert.deepEqual(result, {
+      port: 8080,
+      ratio: 0.5,
+      enabled: true,
+      list: ["a", "b"],
+    });
+  });
+
+  test("casts in nested objects and arrays", () => {
+    const result = interpolateEnvVars({
+      server: { ports: ["${TEST_PORT:int}", "${TEST_PORT}"] },
+    });
+    assert.deepEqual(result, { server: { ports: [8080, "8080"] } });
+  });
+
+  test("casts defaults", () => {
+    const result = interpolateEnvVars({
+      port: "${MISSING_PORT:int:-3000}",
+      debug: "${MISSING_FLAG:bool:-false}",
+      tags: "${MISSING_TAGS:json:-[]}",
+    });
+    assert.deepEqual(result, { port: 3000, debug: false, tags: [] });
+  });
+
+  test("casts vars", () => {
+    const result = interpolateEnvVars(
+      { replicas: "${replicas:int}" },
+      { strict: true, vars: { replicas: "3" } },
+    );
+    assert.deepEqual(result, { replicas: 3 });
+  });
+
+  test("keeps strings when the placeholder is part of a value", () => {
+    const result = interpolateEnvVars({
+      url: "http://localhost:${TEST_PORT:int}",
+    });
+    assert.deepEqual(result, { url: "http://localhost:8080" });
+  });
+
+  test("validates casts that are part of a value", () => {
+    process.env.TEST_PORT = "http";
+    assert.throws(
+      () => interpolateEnvVars({ url: "localhost:${TEST_PORT:int}" }),
+      /TEST_PORT: value is not an integer/,
+    );
+  });
+
+  test("throws on invalid values without echoing them", () => {
+    process.env.TEST_PORT = "secret-8080";
+    process.env.TEST_FLAG = "yes";
+    process.env.TEST_LIST = "{secret";
+
+    assert.throws(
+      () => interpolateEnvVars({ port: "${TEST_PORT:int}" }),
+      (err: Error) =>
+        err.message === "TEST_PORT: value is not an integer" &&
+        !err.message.includes("secret"),
+    );
+    assert.throws(
+      () => interpolateEnvVars({ flag: "${TEST_FLAG:bool}" }),
+      /TEST_FLAG: value is not a boolean \(true or false\)/,
+    );
+    assert.throws(
+      () => interpolateEnvVars({ list: "${TEST_LIST:json}" }),
+      (err: Error) =>
+        err.message === "TEST_LIST: value is not valid JSON" &&
+        !err.message.includes("secret"),
+    );
+    assert.throws(
+      () => interpolateEnvVars({ ratio: "${TEST_PORT:number}" }),
+      /TEST_PORT: value is not a number/,
+    );
+  });
+
+  test("leaves missing cast placeholders in non-strict mode", () => {
+    const result = interpolateEnvVars(
+      { port: "${MISSING_PORT:int}" },
+      { strict: false },
+    );
+    assert.deepEqual(result, { port: "${MISSING_PORT:int}" });
+  });
+
+  test("does not cast escaped or deferred placeholders", () => {
+    const result = interpolateEnvVars(
+      { escaped: "$${TEST_PORT:int}", deferred: "${target.name:json}" },
+      { strict: true, deferred: ["target.name"] },
+    );
+    assert.deepEqual(result, {
+      escaped: "${TEST_PORT:int}",
+      deferred: "${target.name:json}",
+    });
+  });
+
+  test("keeps text content as strings", () => {
+    const result = interpolateEnvVarsInText(["${TEST_PORT:int}"]);
+    assert.deepEqual(result, ["8080"]);
+  });
+});
+
+describe("interpolateEnvVars keys", () => {
+  beforeEach(() => {
+    process.env.TEST_ENV = "prod";
+  });
+
+  afterEach(() => {
+    delete process.env.TEST_ENV;
+  });
+
+  test("interpolates object keys at any depth", () => {
+    const result = interpolateEnvVars({
+      "${TEST_ENV}": { "db-${TEST_ENV}": "${TEST_ENV}" },
+      list: [{ "${TEST_ENV}.url": "x" }],
+    });
+    assert.deepEqual(result, {
+      prod: { "db-prod": "prod" },
+      list: [{ "prod.url": "x" }],
+    });
+  });
+
+  test("does not cast keys", () => {
+    const result = interpolateEnvVars(
+      { "${port:int}": "${port:int}" },
+      { strict: true, vars: { port: "80" } },
+    );
+    assert.deepEqual(result, { "80": 80 });
+  });
+
+  test("unescapes escaped keys", () => {
+    const result = interpolateEnvVars({ "$${TEST_ENV}": 1 });
+    assert.deepEqual(result, { "${TEST_ENV}": 1 });
+  });
+
+  test("throws when two keys interpolate to the same key", () => {
+    assert.throws(
+      () => interpolateEnvVars({ prod: 1, "${TEST_ENV}": 2 }),
+      /Keys 'prod' and '\$\{TEST_ENV\}' interpolate to the same key/,
+    );
+  });
+
+  test("throws on missing vars in keys in strict mode", () => {
+    assert.throws(
+      () => interpolateEnvVars({ "${MISSING_KEY_VAR}": 1 }),
+      /Missing required environment variable: MISSING_KEY_VAR/,
+    );
+  });
+});
+
+describe("interpolateEnvVars secrets", () => {
+  const secrets = new Map([
+    ["file:/run/secrets/token", "file-secret"],
+    ["cmd:pass show npm", "cmd-secret"],
+  ]);
+
+  test("replaces secret placeholders with resolved values", () => {
+    const result = interpolateEnvVars(
+      {
+        token: "${file:/run/secrets/token}",
+        auth: "Bearer ${cmd:pass show npm}",
+        "${cmd:pass show npm}": 1,
+      },
+      { strict: true, secrets },
+    );
+    assert.deepEqual(result, {
+      token: "file-secret",
+      auth: "Bearer cmd-secret",
+      "cmd-secret": 1,
+    });
+  });
+
+  test("throws on unresolved secret placeholders in strict mode", () => {
+    assert.throws(
+      () => interpolateEnvVars({ token: "${cmd:whoami}" }, { strict: true }),
+      /Secret placeholder \$\{cmd:whoami\} was not resolved/,
+    );
+  });
+
+  test("leaves unresolved secret placeholders in non-strict mode", () => {
+    const result = interpolateEnvVars(
+      { token: "${cmd:whoami}" },
+      { strict: false },
+    );
+    assert.deepEqual(result, { token: "${cmd:whoami}" });
+  });
+
+  test("unescapes escaped secret placeholders", () => {
+    const result = interpolateEnvVars(
+      { token: "$${cmd:whoami}" },
+      { strict: true },
+    );
+    assert.deepEqual(result, { token: "${cmd:whoami}" });
+  });
+
+  test("keeps vars named file or cmd working", () => {
+    const result = interpolateEnvVars(
+      { a: "${file:-none}", b: "${cmd:int}", c: "${file}" },
+      { strict: true, vars: { cmd: "3", file: "f" } },
+    );
+    assert.deepEqual(result, { a: "f", b: 3, c: "f" });
+  });
+});
+
+describe("findVarPlaceholders", () => {
+  test("finds unique var names, skipping escapes and secret sources", () => {
+    assert.deepEqual(
+      findVarPlaceholders(
+        "${A}/${B:-x}/${A}/$${C}/${file:/run/token}/${D:int}",
+      ),
+      ["A", "B", "D"],
+    );
+  });
+});
+
+describe("findSecretPlaceholders", () => {
+  test("finds unique placeholders in strings and keys", () => {
+    assert.deepEqual(
+      findSecretPlaceholders({
+        a: "${file:/x} and ${cmd:get token}",
+        b: ["${file:/x}", { "${cmd:key}": "${VAR}" }],
+        c: "$${cmd:escaped}",
+        d: "${file:-default}",
+        e: 42,
+      }),
+      ["file:/x", "cmd:get token", "cmd:key"],
+    );
+  });
+});
+
+describe("interpolateEnvVarsInText", () => {
+  beforeEach(() => {
+    process.env.TEST_VAR = "test-value";
+  });
+
+  afterEach(() => {
+    delete process.env.TEST_VAR;
+  });
+
+  test("interpolates a string", () => {
+    const result = interpolateEnvVarsInText("registry=${TEST_VAR}");
+    assert.equal(result, "registry=test-value");
+  });
+
+  test("interpolates each line of an array", () => {
+    const result = interpolateEnvVarsInText([
+      "# ${TEST_VAR}",
+      "${MISSING:-dist}/",
+    ]);
+    assert.deepEqual(result, ["# test-value", "dist/"]);
+  });
+
+  test("throws for missing var in strict mode", () => {
+    assert.throws(
+      () => interpolateEnvVarsInText("${MISSING_VAR}"),
+      /Missing required environment variable: MISSING_VAR/,
+    );
+  });
+});
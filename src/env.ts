@@ -1,99 +1,398 @@
 /**
  * Environment variable interpolation utilities.
  * Supports ${VAR}, ${VAR:-default}, and ${VAR:?message} syntax.
+ * $${...} escapes a placeholder and produces a literal ${...}, whatever
+ * is inside the braces.
+ * ${VAR:int}, ${VAR:number}, ${VAR:bool} and ${VAR:json} cast whole values.
+ * ${file:path} and ${cmd:command} insert secrets resolved ahead of time
+ * (see secret-sources.ts).
  */
 
+import { isPlainObject } from "./merge.js";
+
 export interface EnvInterpolationOptions {
   /**
    * If true (default), throws an error when a variable is missing
    * and has no default value. If false, leaves the placeholder as-is.
    */
   strict: boolean;
+  /**
+   * Template variables (e.g. config vars and built-in repo metadata).
+   * Looked up before environment variables.
+   */
+  vars?: Record<string, string>;
+  /**
+   * Environment variables to read (default: process.env).
+   */
+  env?: Record<string, string | undefined>;
+  /**
+   * Variable names left as-is, to be resolved by a later pass.
+   */
+  deferred?: string[];
+  /**
+   * Keep escaped placeholders ($${VAR}) as-is, for a later pass to unescape.
+   */
+  keepEscapes?: boolean;
+  /**
+   * Only resolve these variable names; other placeholders are left as-is.
+   * Escaped placeholders are still unescaped.
+   */
+  only?: string[];
+  /**
+   * Resolved ${file:...} and ${cmd:...} values, keyed by "source:reference".
+   */
+  secrets?: Map<string, string>;
 }
 
+/**
+ * Sources for secret placeholders like ${file:/run/secrets/token}.
+ */
+export type SecretSource = "file" | "cmd";
+
+export const SECRET_SOURCES: SecretSource[] = ["file", "cmd"];
+
 const DEFAULT_OPTIONS: EnvInterpolationOptions = {
   strict: true,
 };
 
 /**
- * Regex to match environment variable placeholders.
- * Captures:
- * - Group 1: Variable name
- * - Group 2: Modifier (- for default, ? for required with message)
- * - Group 3: Default value or error message
+ * Regex to match placeholders, including escaped ones with a leading
+ * extra "$". A placeholder is either a secret source or a variable.
+ * Named groups:
+ * - source, ref: Secret source (file or cmd) and its path or command
+ * - name: Variable name
+ * - cast: Cast (int, number, bool or json)
+ * - modifier: - for default, ? for required with message
+ * - arg: Default value or error message
  *
  * Examples:
- * - ${VAR} -> varName=VAR, modifier=undefined, value=undefined
- * - ${VAR:-default} -> varName=VAR, modifier=-, value=default
- * - ${VAR:?message} -> varName=VAR, modifier=?, value=message
+ * - ${VAR} -> name=VAR, modifier=undefined, arg=undefined
+ * - ${VAR:-default} -> name=VAR, modifier=-, arg=default
+ * - ${VAR:?message} -> name=VAR, modifier=?, arg=message
+ * - ${VAR:int:-8080} -> name=VAR, cast=int, modifier=-, arg=8080
+ * - ${file:/run/secrets/token} -> source=file, ref=/run/secrets/token
+ * - ${cmd:pass show npm} -> source=cmd, ref=pass show npm
+ * - $${VAR} -> escaped, kept literally (escapes are normally split off
+ *   first by splitEscapes)
+ *
+ * Vars named file or cmd keep working with a default, message or cast
+ * (e.g. ${file:-x}).
  */
-const ENV_VAR_REGEX = /\$\{([^}:]+)(?::([?-])([^}]*))?\}/g;
+const PLACEHOLDER_REGEX =
+  /\$?\$\{(?:(?<source>file|cmd):(?![-?]|(?:int|number|bool|json)[:}])(?<ref>[^}]+)|(?<name>[^}:]+)(?::(?<cast>int|number|bool|json))?(?::(?<modifier>[?-])(?<arg>[^}]*))?)\}/g;
+
+// Matches a string that is exactly one placeholder
+const WHOLE_VALUE_REGEX = new RegExp(`^${PLACEHOLDER_REGEX.source}$`);
+
+interface PlaceholderGroups {
+  source?: SecretSource;
+  ref?: string;
+  name?: string;
+  cast?: CastType;
+  modifier?: string;
+  arg?: string;
+}
+
+type CastType = "int" | "number" | "bool" | "json";
 
 /**
- * Check if a value is a plain object (not null, not array).
+ * Converts a resolved value to the cast type. Errors name the variable but
+ * not its value, which may be a secret.
  */
-function isPlainObject(val: unknown): val is Record<string, unknown> {
-  return typeof val === "object" && val !== null && !Array.isArray(val);
+function castValue(value: string, cast: CastType, varName: string): unknown {
+  const trimmed = value.trim();
+
+  switch (cast) {
+    case "int":
+      if (!/^[-+]?\d+$/.test(trimmed)) {
+        throw new Error(`${varName}: value is not an integer`);
+      }
+      return Number(trimmed);
+    case "number": {
+      const num = Number(trimmed);
+      if (trimmed === "" || !Number.isFinite(num)) {
+        throw new Error(`${varName}: value is not a number`);
+      }
+      return num;
+    }
+    case "bool":
+      if (!/^(true|false)$/i.test(trimmed)) {
+        throw new Error(`${varName}: value is not a boolean (true or false)`);
+      }
+      return trimmed.toLowerCase() === "true";
+    case "json":
+      try {
+        return JSON.parse(value);
+      } catch {
+        throw new Error(`${varName}: value is not valid JSON`);
+      }
+  }
 }
 
 /**
- * Process a single string value, replacing environment variable placeholders.
+ * Resolves a placeholder's value from vars, the environment or its default.
+ * Returns undefined if it is missing in non-strict mode.
+ */
+function resolveVar(
+  varName: string,
+  modifier: string | undefined,
+  defaultOrMsg: string | undefined,
+  options: EnvInterpolationOptions,
+): string | undefined {
+  const envValue =
+    options.vars && Object.hasOwn(options.vars, varName)
+      ? options.vars[varName]
+      : (options.env ?? process.env)[varName];
+
+  // Variable exists - use its value
+  if (envValue !== undefined) {
+    return envValue;
+  }
+
+  // Has default value (:-default)
+  if (modifier === "-") {
+    return defaultOrMsg ?? "";
+  }
+
+  // Required with message (:?message)
+  if (modifier === "?") {
+    const message = defaultOrMsg || `is required`;
+    throw new Error(`${varName}: ${message}`);
+  }
+
+  // No modifier - check strictness
+  if (options.strict) {
+    throw new Error(`Missing required environment variable: ${varName}`);
+  }
+
+  // Non-strict mode - leave placeholder as-is
+  return undefined;
+}
+
+/**
+ * Returns the resolved value of a secret placeholder. Secrets are resolved
+ * before interpolation because resolving them is asynchronous.
+ */
+function resolveSecret(
+  source: SecretSource,
+  ref: string,
+  options: EnvInterpolationOptions,
+): string | undefined {
+  const value = options.secrets?.get(`${source}:${ref}`);
+  if (value === undefined && options.strict) {
+    throw new Error(
+      `Secret placeholder \${${source}:${ref}} was not resolved; secret sources are resolved by loadConfigWithDiscovery`,
+    );
+  }
+  return value;
+}
+
+/**
+ * Process a single string value, replacing placeholders.
+ * With typed set, a string that is exactly one placeholder with a cast
+ * (e.g. "${PORT:int}") becomes the cast value; otherwise casts only
+ * validate the value and the result is a string.
  */
 function processString(
   value: string,
   options: EnvInterpolationOptions,
-): string {
-  return value.replace(
-    ENV_VAR_REGEX,
-    (match, varName: string, modifier?: string, defaultOrMsg?: string) => {
-      const envValue = process.env[varName];
-
-      // Variable exists - use its value
-      if (envValue !== undefined) {
-        return envValue;
-      }
+  typed: boolean,
+): unknown {
+  const whole = typed ? WHOLE_VALUE_REGEX.exec(value) : null;
+  const wholeGroups = whole?.groups as PlaceholderGroups | undefined;
+  if (wholeGroups?.name && wholeGroups.cast && !value.startsWith("$$")) {
+    const { name, cast, modifier, arg } = wholeGroups;
+    if (
+      options.deferred?.includes(name) ||
+      (options.only && !options.only.includes(name))
+    ) {
+      return value;
+    }
+    const resolved = resolveVar(name, modifier, arg, options);
+    return resolved === undefined ? value : castValue(resolved, cast, name);
+  }
 
-      // Has default value (:-default)
-      if (modifier === "-") {
-        return defaultOrMsg ?? "";
-      }
+  return splitEscapes(value)
+    .map(({ text, escaped }) =>
+      escaped ? unescape(text, options) : replacePlaceholders(text, options),
+    )
+    .join("");
+}
 
-      // Required with message (:?message)
-      if (modifier === "?") {
-        const message = defaultOrMsg || `is required`;
-        throw new Error(`${varName}: ${message}`);
-      }
+/**
+ * Splits a string into escapes ($${ up to its matching closing brace) and
+ * the text between them. Escapes are recognized by their braces alone, so
+ * shell forms like $${VAR:=x} or expressions like $${{ a && 'b:c' }} are
+ * escaped too. A $${ without a matching brace is left in the text.
+ */
+function splitEscapes(value: string): { text: string; escaped: boolean }[] {
+  const parts: { text: string; escaped: boolean }[] = [];
+  let pos = 0;
+  let start = value.indexOf("$${");
 
-      // No modifier - check strictness
-      if (options.strict) {
-        throw new Error(`Missing required environment variable: ${varName}`);
+  while (start !== -1) {
+    let depth = 0;
+    let end = -1;
+    for (let i = start + 2; i < value.length; i++) {
+      if (value[i] === "{") {
+        depth++;
+      } else if (value[i] === "}" && --depth === 0) {
+        end = i;
+        break;
       }
+    }
+    if (end === -1) break;
+
+    if (start > pos) {
+      parts.push({ text: value.slice(pos, start), escaped: false });
+    }
+    parts.push({ text: value.slice(start, end + 1), escaped: true });
+    pos = end + 1;
+    start = value.indexOf("$${", pos);
+  }
+
+  if (pos < value.length) {
+    parts.push({ text: value.slice(pos), escaped: false });
+  }
+  return parts;
+}
+
+/**
+ * Drops the escape from $${...}, unless a later pass will: with
+ * keepEscapes, or for deferred vars.
+ */
+function unescape(escape: string, options: EnvInterpolationOptions): string {
+  const name = /^\$\$\{([^}:]+)[:}]/.exec(escape)?.[1];
+  if (options.keepEscapes || (name && options.deferred?.includes(name))) {
+    return escape;
+  }
+  return escape.slice(1);
+}
+
+/**
+ * Replaces the placeholders in text that has no escapes.
+ */
+function replacePlaceholders(
+  text: string,
+  options: EnvInterpolationOptions,
+): string {
+  return text.replace(PLACEHOLDER_REGEX, (match: string, ...args) => {
+    const { source, ref, name, cast, modifier, arg } = args[
+      args.length - 1
+    ] as PlaceholderGroups;
+
+    // Deferred placeholders stay as-is for the later pass
+    if (name && options.deferred?.includes(name)) {
+      return match;
+    }
+
+    // Escaped placeholder ($${VAR}) - drop the escape, unless a later
+    // pass will
+    if (match.startsWith("$$")) {
+      return options.keepEscapes ? match : match.slice(1);
+    }
+
+    if (options.only && !(name && options.only.includes(name))) {
+      return match;
+    }
 
-      // Non-strict mode - leave placeholder as-is
+    const resolved =
+      source && ref
+        ? resolveSecret(source, ref, options)
+        : resolveVar(name as string, modifier, arg, options);
+    if (resolved === undefined) {
       return match;
-    },
-  );
+    }
+
+    if (cast) {
+      castValue(resolved, cast, name as string);
+    }
+    return resolved;
+  });
+}
+
+/**
+ * Finds the secret placeholders in a value (strings and object keys,
+ * recursively), skipping escaped ones.
+ * @returns Unique "source:reference" keys, e.g. "file:/run/secrets/token"
+ */
+export function findSecretPlaceholders(value: unknown): string[] {
+  const found = new Set<string>();
+
+  const visit = (item: unknown): void => {
+    if (typeof item === "string") {
+      for (const { text, escaped } of splitEscapes(item)) {
+        if (escaped) continue;
+        for (const match of text.matchAll(PLACEHOLDER_REGEX)) {
+          const { source, ref } = match.groups as PlaceholderGroups;
+          if (source && ref && !match[0].startsWith("$$")) {
+            found.add(`${source}:${ref}`);
+          }
+        }
+      }
+    } else if (Array.isArray(item)) {
+      item.forEach(visit);
+    } else if (isPlainObject(item)) {
+      for (const [key, val] of Object.entries(item)) {
+        visit(key);
+        visit(val);
+      }
+    }
+  };
+
+  visit(value);
+  return [...found];
+}
+
+/**
+ * Finds the variable names used by placeholders in a string, skipping
+ * escaped ones and secret sources.
+ */
+export function findVarPlaceholders(value: string): string[] {
+  const found = new Set<string>();
+  for (const { text, escaped } of splitEscapes(value)) {
+    if (escaped) continue;
+    for (const match of text.matchAll(PLACEHOLDER_REGEX)) {
+      const { name } = match.groups as PlaceholderGroups;
+      if (name && !match[0].startsWith("$$")) {
+        found.add(name);
+      }
+    }
+  }
+  return [...found];
 }
 
 /**
- * Recursively process a value, interpolating environment variables in strings.
+ * Recursively process a value, interpolating environment variables in
+ * strings and object keys.
  */
 function processValue(
   value: unknown,
   options: EnvInterpolationOptions,
+  typed: boolean,
 ): unknown {
   if (typeof value === "string") {
-    return processString(value, options);
+    return processString(value, options, typed);
   }
 
   if (Array.isArray(value)) {
-    return value.map((item) => processValue(item, options));
+    return value.map((item) => processValue(item, options, typed));
   }
 
   if (isPlainObject(value)) {
     const result: Record<string, unknown> = {};
+    // Interpolated key -> original key, to detect collisions
+    const sourceKeys = new Map<string, string>();
     for (const [key, val] of Object.entries(value)) {
-      result[key] = processValue(val, options);
+      const newKey = processString(key, options, false) as string;
+      const otherKey = sourceKeys.get(newKey);
+      if (otherKey !== undefined) {
+        throw new Error(
+          `Keys '${otherKey}' and '${key}' interpolate to the same key`,
+        );
+      }
+      sourceKeys.set(newKey, key);
+      result[newKey] = processValue(val, options, typed);
     }
     return result;
   }
@@ -103,13 +402,17 @@ function processValue(
 }
 
 /**
- * Interpolate environment variables in a JSON object.
+ * Interpolate environment variables in a JSON object, including its keys.
  *
  * Supports three syntaxes:
  * - ${VAR} - Replace with env value, error if missing (in strict mode)
  * - ${VAR:-default} - Replace with env value, or use default if missing
  * - ${VAR:?message} - Replace with env value, or throw error with message if missing
  *
+ * Prefix a placeholder with an extra "$" ($${VAR}) to keep it literally.
+ * Add a cast (${VAR:int}, ${VAR:number}, ${VAR:bool}, ${VAR:json}) to
+ * replace a value that is exactly one placeholder with a typed value.
+ *
  * @param json - The JSON object to process
  * @param options - Interpolation options (default: strict mode)
  * @returns A new object with interpolated values
@@ -118,5 +421,21 @@ export function interpolateEnvVars(
   json: Record<string, unknown>,
   options: EnvInterpolationOptions = DEFAULT_OPTIONS,
 ): Record<string, unknown> {
-  return processValue(json, options) as Record<string, unknown>;
+  return processValue(json, options, true) as Record<string, unknown>;
+}
+
+/**
+ * Interpolate environment variables in text content (a string or array of lines).
+ * Uses the same syntax and options as interpolateEnvVars; casts only
+ * validate values since text output is always a string.
+ *
+ * @param text - The text content to process
+ * @param options - Interpolation options (default: strict mode)
+ * @returns The interpolated text, in the same shape as the input
+ */
+export function interpolateEnvVarsInText(
+  text: string | string[],
+  options: EnvInterpolationOptions = DEFAULT_OPTIONS,
+): string | string[] {
+  return processValue(text, options, false) as string | string[];
 }
@@ -0,0 +1,430 @@
+import { test, describe, beforeEach, afterEach } from "node:test";
+import { strict as assert } from "node:assert";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  mergeIntoExisting,
+  mergeIntoExistingFile,
+  pickManagedPaths,
+  readExistingContent,
+  updateManagedPaths,
+} from "./existing-file.js";
+import type { FileContent } from "./config.js";
+
+describe("readExistingContent", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "existing-file-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const read = (fileName: string, text: string) => {
+    writeFileSync(join(dir, fileName), text, "utf-8");
+    return readExistingContent(join(dir, fileName), `sub/${fileName}`);
+  };
+
+  test("parses JSON and YAML by extension", () => {
+    assert.deepEqual(read("package.json", '{ "name": "app" }'), {
+      name: "app",
+    });
+    assert.deepEqual(read("config.yaml", "# comment\nname: app\n"), {
+      name: "app",
+    });
+  });
+
+  test("accepts comments and trailing commas in JSON", () => {
+    const text = [
+      "{",
+      "  // Shared settings",
+      '  "compilerOptions": {',
+      '    "strict": true, /* for now */',
+      '    "outDir": "dist//out",',
+      '    "paths": { "@/*": ["src/*",] },',
+      "  },",
+      "}",
+    ].join("\n");
+    assert.deepEqual(read("tsconfig.json", text), {
+      compilerOptions: {
+        strict: true,
+        outDir: "dist//out",
+        paths: { "@/*": ["src/*"] },
+      },
+    });
+  });
+
+  test("reads empty files as an empty object", () => {
+    assert.deepEqual(read("package.json", "\n"), {});
+    assert.deepEqual(read("config.yml", "# only a comment\n"), {});
+  });
+
+  test("throws for files that cannot be parsed", () => {
+    assert.throws(
+      () => read("package.json", "{ name: app }"),
+      /^Error: Cannot update sub\/package\.json: existing file is not valid JSON: /,
+    );
+    assert.throws(
+      () => read("config.yaml", "a: [1"),
+      /Cannot update sub\/config\.yaml: existing file is not valid YAML/,
+    );
+  });
+
+  test("throws for files that do not hold an object", () => {
+    assert.throws(
+      () => read("list.json", "[1, 2]"),
+      /Cannot update sub\/list\.json: existing file must contain an object/,
+    );
+  });
+});
+
+describe("mergeIntoExisting", () => {
+  const file: FileContent = {
+    fileName: "package.json",
+    mode: "merge",
+    content: {
+      engines: { node: ">=20" },
+      files: ["dist"],
+      overrides: [{ files: ["*.ts"], rules: ["b"] }],
+    },
+  };
+  const existing = {
+    name: "app",
+    scripts: { build: "tsc" },
+    engines: { node: ">=18", npm: ">=9" },
+    files: ["lib"],
+    overrides: [{ files: ["*.ts"], rules: ["a"] }],
+  };
+
+  test("keeps the repo's keys and their order", () => {
+    const result = mergeIntoExisting(file, existing);
+    assert.deepEqual(result, {
+      name: "app",
+      scripts: { build: "tsc" },
+      engines: { node: ">=20", npm: ">=9" },
+      files: ["dist"],
+      overrides: [{ files: ["*.ts"], rules: ["b"] }],
+    });
+    assert.deepEqual(Object.keys(result), [
+      "name",
+      "scripts",
+      "engines",
+      "files",
+      "overrides",
+    ]);
+  });
+
+  test("uses the file's mergeStrategy and arrayStrategies", () => {
+    const result = mergeIntoExisting(
+      {
+        ...file,
+        mergeStrategy: "unique",
+        arrayStrategies: { overrides: "append" },
+        content: {
+          files: ["dist", "lib"],
+          overrides: [{ files: ["*.js"], rules: ["c"] }],
+        },
+      },
+      existing,
+    );
+    assert.deepEqual(result, {
+      ...existing,
+      files: ["lib", "dist"],
+      overrides: [
+        { files: ["*.ts"], rules: ["a"] },
+        { files: ["*.js"], rules: ["c"] },
+      ],
+    });
+  });
+
+  test("keeps the repo's $-prefixed keys like $schema", () => {
+    const result = mergeIntoExisting(
+      { ...file, content: { $arrayMerge: "append", files: ["dist"] } },
+      { $schema: "https://json.schemastore.org/package", files: ["lib"] },
+    );
+    assert.deepEqual(result, {
+      $schema: "https://json.schemastore.org/package",
+      files: ["dist"],
+    });
+  });
+
+  test("keeps the existing content for empty managed content", () => {
+    assert.deepEqual(
+      mergeIntoExisting({ ...file, content: null }, existing),
+      existing,
+    );
+  });
+});
+
+describe("mergeIntoExistingFile", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "merge-file-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const merge = (
+    fileName: string,
+    text: string,
+    file: Partial<FileContent>,
+  ) => {
+    writeFileSync(join(dir, fileName), text, "utf-8");
+    return mergeIntoExistingFile(
+      { fileName, mode: "merge", content: {}, ...file },
+      join(dir, fileName),
+      fileName,
+    );
+  };
+
+  test("keeps the JSON file's indentation", () => {
+    const text = '{\n    "name": "app",\n    "engines": { "node": ">=18" }\n}';
+    assert.equal(
+      merge("package.json", text, { content: { engines: { node: ">=20" } } }),
+      '{\n    "name": "app",\n    "engines": {\n        "node": ">=20"\n    }\n}',
+    );
+  });
+
+  test("reads JSON with comments", () => {
+    const text = '{\n  // repo settings\n  "strict": false,\n}';
+    assert.equal(
+      merge("tsconfig.json", text, { content: { strict: true } }),
+      '{\n  "strict": true\n}',
+    );
+  });
+
+  test("keeps YAML comments and indentation", () => {
+    const text = [
+      "# Repo config",
+      "name: app # local name",
+      "engines:",
+      '    node: ">=18" # minimum',
+      "",
+    ].join("\n");
+
+    assert.equal(
+      merge("config.yaml", text, {
+        content: { engines: { node: ">=20" }, private: true },
+      }),
+      [
+        "# Repo config",
+        "name: app # local name",
+        "engines:",
+        '    node: ">=20" # minimum',
+        "private: true",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("adds the header comment to YAML", () => {
+    assert.equal(
+      merge("config.yaml", "name: app\n", {
+        content: { private: true },
+        header: ["Managed by json-config-sync"],
+      }),
+      "# Managed by json-config-sync\n\nname: app\nprivate: true\n",
+    );
+  });
+
+  test("returns undefined when the merge changes nothing", () => {
+    const json = '{"name":"app","engines":{"node":">=20"}}';
+    assert.equal(
+      merge("package.json", json, { content: { engines: { node: ">=20" } } }),
+      undefined,
+    );
+    const yaml = "name: app\nengines: {node: '>=20'}\n";
+    assert.equal(
+      merge("config.yml", yaml, { content: { engines: { node: ">=20" } } }),
+      undefined,
+    );
+  });
+});
+
+describe("pickManagedPaths", () => {
+  test("keeps only the managed paths, in the order listed", () => {
+    const result = pickManagedPaths({
+      fileName: "tsconfig.json",
+      managedPaths: ["engines.node", "compilerOptions.strict", "missing.key"],
+      content: {
+        compilerOptions: { strict: true, target: "es2022" },
+        engines: { node: ">=20" },
+        include: ["src"],
+      },
+    });
+    assert.deepEqual(result, {
+      engines: { node: ">=20" },
+      compilerOptions: { strict: true },
+    });
+    assert.deepEqual(Object.keys(result), ["engines", "compilerOptions"]);
+  });
+});
+
+describe("updateManagedPaths", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "managed-paths-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const update = (
+    fileName: string,
+    text: string,
+    file: Partial<FileContent>,
+  ) => {
+    writeFileSync(join(dir, fileName), text, "utf-8");
+    return updateManagedPaths(
+      { fileName, content: {}, ...file },
+      join(dir, fileName),
+      fileName,
+    );
+  };
+
+  const file: Partial<FileContent> = {
+    managedPaths: ["compilerOptions.strict", "engines.node", "files"],
+    content: {
+      compilerOptions: { strict: true, target: "es2022" },
+      engines: { node: ">=20" },
+    },
+  };
+
+  test("updates only managed paths in JSON, keeping order and indentation", () => {
+    const text =
+      JSON.stringify(
+        {
+          compilerOptions: { target: "es2020", strict: false },
+          files: ["index.ts"],
+          include: ["src"],
+        },
+        null,
+        4,
+      ) + "\n";
+
+    const result = update("tsconfig.json", text, file);
+    assert.equal(
+      result.text,
+      JSON.stringify(
+        {
+          compilerOptions: { target: "es2020", strict: true },
+          include: ["src"],
+          engines: { node: ">=20" },
+        },
+        null,
+        4,
+      ),
+    );
+    assert.deepEqual(result.changes, [
+      { path: "compilerOptions.strict", from: false, to: true },
+      { path: "engines.node", from: undefined, to: ">=20" },
+      { path: "files", from: ["index.ts"], to: undefined },
+    ]);
+  });
+
+  test("keeps YAML comments and formatting", () => {
+    const text = [
+      "# Repo config",
+      "compilerOptions:",
+      "  strict: false # tightened later",
+      '  target: "es2020"',
+      "",
+    ].join("\n");
+
+    const result = update("config.yaml", text, file);
+    assert.equal(
+      result.text,
+      [
+        "# Repo config",
+        "compilerOptions:",
+        "  strict: true # tightened later",
+        '  target: "es2020"',
+        "engines:",
+        '  node: ">=20"',
+        "",
+      ].join("\n"),
+    );
+    assert.equal(result.changes.length, 2);
+  });
+
+  test("keeps YAML indentation and re-spaces flow collections", () => {
+    const text = [
+      "compilerOptions:",
+      "    strict: false",
+      "    paths: {a: 1}",
+      "    lib: [dom]",
+      "",
+    ].join("\n");
+
+    const result = update("config.yaml", text, {
+      managedPaths: ["compilerOptions.strict"],
+      content: { compilerOptions: { strict: true } },
+    });
+    assert.equal(
+      result.text,
+      [
+        "compilerOptions:",
+        "    strict: true",
+        "    paths: { a: 1 }",
+        "    lib: [ dom ]",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("expands inline JSON objects when rewriting", () => {
+    const text = '{\n  "a": {"c": 2},\n  "b": 1\n}';
+    const result = update("config.json", text, {
+      managedPaths: ["b"],
+      content: { b: 2 },
+    });
+    assert.equal(result.text, '{\n  "a": {\n    "c": 2\n  },\n  "b": 2\n}');
+  });
+
+  test("returns the file unchanged when managed paths match", () => {
+    const text =
+      '{"compilerOptions":{"strict":true},"engines":{"node":">=20"}}';
+    const result = update("tsconfig.json", text, file);
+    assert.equal(result.text, text);
+    assert.deepEqual(result.changes, []);
+  });
+
+  test("creates parents in empty files", () => {
+    assert.deepEqual(
+      update("config.yml", "", file).text,
+      [
+        "compilerOptions:",
+        "  strict: true",
+        "engines:",
+        '  node: ">=20"',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("throws when a managed path runs through a non-object", () => {
+    assert.throws(
+      () => update("tsconfig.json", '{ "compilerOptions": "strict" }', file),
+      /Cannot update tsconfig\.json: managed path 'compilerOptions\.strict' runs through 'compilerOptions', which is not an object/,
+    );
+  });
+
+  test("throws for files that cannot be parsed", () => {
+    assert.throws(
+      () => update("config.yaml", "a: [1", file),
+      /Cannot update config\.yaml: existing file is not valid YAML/,
+    );
+    assert.throws(
+      () => update("config.yaml", "- a\n", file),
+      /Cannot update config\.yaml: existing file must contain an object/,
+    );
+  });
+});
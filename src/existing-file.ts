@@ -0,0 +1,411 @@
+import { readFileSync } from "node:fs";
+import { isDeepStrictEqual } from "node:util";
+import { Document, isScalar, parse, parseDocument } from "yaml";
+import {
+  buildHeaderComment,
+  detectOutputFormat,
+  isTextContent,
+} from "./config-formatter.js";
+import {
+  createMergeContext,
+  deepMerge,
+  isPlainObject,
+  stripMergeDirectives,
+} from "./merge.js";
+import type { ContentValue, FileContent } from "./config.js";
+import type { PathChange } from "./pr-creator.js";
+
+/**
+ * The rewritten text of an existing file and the managed paths it changed.
+ */
+export interface ManagedPathsResult {
+  text: string;
+  changes: PathChange[];
+}
+
+/**
+ * A value to set (or remove, if `to` is undefined) at a path's keys.
+ */
+interface ValueChange {
+  keys: string[];
+  to: unknown;
+}
+
+/**
+ * Removes comments and trailing commas from JSONC text (as allowed in
+ * tsconfig.json), leaving strings untouched.
+ */
+function stripJsonComments(text: string): string {
+  let result = "";
+  // Position in result of a comma that may turn out to be trailing
+  let comma = -1;
+  let i = 0;
+  while (i < text.length) {
+    if (text.startsWith("//", i)) {
+      const end = text.indexOf("\n", i);
+      i = end === -1 ? text.length : end;
+      continue;
+    }
+    if (text.startsWith("/*", i)) {
+      const end = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 2;
+      continue;
+    }
+
+    const char = text[i];
+    if (/\s/.test(char)) {
+      result += char;
+      i++;
+      continue;
+    }
+    if ((char === "}" || char === "]") && comma !== -1) {
+      result = result.slice(0, comma) + result.slice(comma + 1);
+    }
+    comma = char === "," ? result.length : -1;
+
+    let end = i + 1;
+    if (char === '"') {
+      while (end < text.length && text[end] !== '"') {
+        end += text[end] === "\\" ? 2 : 1;
+      }
+      end++;
+    }
+    result += text.slice(i, end);
+    i = end;
+  }
+  return result;
+}
+
+/**
+ * Reads a JSON or YAML file from the clone, parsing it by the file name's
+ * extension. JSON may contain comments and trailing commas. An empty file
+ * reads as {}.
+ * @param filePath - Absolute path of the file in the clone
+ * @param targetPath - Path in the repo, for error messages
+ * @throws Error if the file cannot be parsed or does not hold an object
+ */
+export function readExistingContent(
+  filePath: string,
+  targetPath: string,
+): Record<string, unknown> {
+  const text = readFileSync(filePath, "utf-8");
+  if (text.trim() === "") return {};
+
+  const format = detectOutputFormat(targetPath);
+  let content: unknown;
+  try {
+    content =
+      format === "yaml" ? parse(text) : JSON.parse(stripJsonComments(text));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Cannot update ${targetPath}: existing file is not valid ${format.toUpperCase()}: ${message}`,
+    );
+  }
+
+  if (content === null || content === undefined) return {};
+  if (!isPlainObject(content)) {
+    throw new Error(
+      `Cannot update ${targetPath}: existing file must contain an object`,
+    );
+  }
+  return content;
+}
+
+/**
+ * Deep merges a file's managed content on top of the repo's existing copy
+ * using the file's array strategies. Keys only the repo has are kept, in
+ * their original order, including $-prefixed ones like "$schema": only
+ * the managed content has merge directives stripped.
+ */
+export function mergeIntoExisting(
+  file: FileContent,
+  existing: Record<string, unknown>,
+): ContentValue {
+  if (file.content === null || isTextContent(file.content)) {
+    return existing;
+  }
+  return deepMerge(
+    existing,
+    stripMergeDirectives(file.content),
+    createMergeContext(file.mergeStrategy, file.arrayStrategies),
+  );
+}
+
+/**
+ * Merges a file's managed content into the repo's existing copy (see
+ * mergeIntoExisting) and returns the file's new text, or undefined if the
+ * merge changes nothing. The new text keeps the detected indentation:
+ * YAML is updated in place, keeping its comments, and gets the file's
+ * header and schemaUrl comment; JSON is re-serialized, dropping comments.
+ * @param file - File with mode: merge and its managed content
+ * @param filePath - Absolute path of the file in the clone
+ * @param targetPath - Path in the repo, for error messages
+ * @throws Error if the file cannot be parsed or does not hold an object
+ */
+export function mergeIntoExistingFile(
+  file: FileContent,
+  filePath: string,
+  targetPath: string,
+): string | undefined {
+  const text = readFileSync(filePath, "utf-8");
+
+  if (detectOutputFormat(targetPath) === "yaml") {
+    const { doc, existing } = parseExistingDocument(text, targetPath);
+    const merged = mergeIntoExisting(file, existing) as Record<string, unknown>;
+    const headerComment = buildHeaderComment(file.header, file.schemaUrl);
+    const changes = diffValues(existing, merged);
+    if (
+      changes.length === 0 &&
+      (headerComment === undefined || doc.commentBefore === headerComment)
+    ) {
+      return undefined;
+    }
+
+    updateDocument(doc, changes);
+    if (headerComment) {
+      doc.commentBefore = headerComment;
+    }
+    return doc.toString({ indent: detectIndent(text).length });
+  }
+
+  const existing = readExistingContent(filePath, targetPath);
+  const merged = mergeIntoExisting(file, existing);
+  if (isDeepStrictEqual(existing, merged)) return undefined;
+  return JSON.stringify(merged, null, detectIndent(text));
+}
+
+/**
+ * Gets the managed content of a file as an object, without merge directives.
+ */
+function getManagedContent(file: FileContent): Record<string, unknown> {
+  if (file.content === null || isTextContent(file.content)) {
+    return {};
+  }
+  return stripMergeDirectives(file.content);
+}
+
+/**
+ * Gets the value at a dotted path's keys, or undefined if it is unset.
+ */
+function getAtPath(obj: Record<string, unknown>, keys: string[]): unknown {
+  let current: unknown = obj;
+  for (const key of keys) {
+    if (!isPlainObject(current) || !Object.hasOwn(current, key)) {
+      return undefined;
+    }
+    current = current[key];
+  }
+  return current;
+}
+
+/**
+ * Sets the value at a dotted path's keys, creating missing parents.
+ * Existing keys keep their position; new keys are added last.
+ */
+function setAtPath(
+  obj: Record<string, unknown>,
+  keys: string[],
+  value: unknown,
+): void {
+  let current = obj;
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(current[key])) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Removes the value at a dotted path's keys, if it is set.
+ */
+function deleteAtPath(obj: Record<string, unknown>, keys: string[]): void {
+  const parent = getAtPath(obj, keys.slice(0, -1));
+  if (isPlainObject(parent)) {
+    delete parent[keys[keys.length - 1]];
+  }
+}
+
+/**
+ * Compares each managed path in the existing content with the managed
+ * content. A path the managed content lacks is removed.
+ * @throws Error if a path to set runs through a value that is not an object
+ */
+function diffManagedPaths(
+  managedPaths: string[],
+  existing: Record<string, unknown>,
+  managed: Record<string, unknown>,
+  targetPath: string,
+): PathChange[] {
+  const changes: PathChange[] = [];
+  for (const path of managedPaths) {
+    const keys = path.split(".");
+    const from = getAtPath(existing, keys);
+    const to = getAtPath(managed, keys);
+    if (isDeepStrictEqual(from, to)) continue;
+
+    if (to !== undefined) {
+      for (let i = 1; i < keys.length; i++) {
+        const parent = getAtPath(existing, keys.slice(0, i));
+        if (parent !== undefined && !isPlainObject(parent)) {
+          throw new Error(
+            `Cannot update ${targetPath}: managed path '${path}' runs through '${keys.slice(0, i).join(".")}', which is not an object`,
+          );
+        }
+      }
+    }
+    changes.push({ path, from, to });
+  }
+  return changes;
+}
+
+/**
+ * Lists the values that differ between two objects, descending into
+ * objects both sides hold. Keys only `from` has are removed.
+ */
+function diffValues(
+  from: Record<string, unknown>,
+  to: Record<string, unknown>,
+  parentKeys: string[] = [],
+): ValueChange[] {
+  const changes: ValueChange[] = [];
+  for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    const keys = [...parentKeys, key];
+    const fromValue = from[key];
+    const toValue = Object.hasOwn(to, key) ? to[key] : undefined;
+    if (isPlainObject(fromValue) && isPlainObject(toValue)) {
+      changes.push(...diffValues(fromValue, toValue, keys));
+    } else if (!isDeepStrictEqual(fromValue, toValue)) {
+      changes.push({ keys, to: toValue });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Applies changes to a parsed YAML document, keeping its comments.
+ * Scalars keep their style when their type does not change.
+ */
+function updateDocument(doc: Document, changes: ValueChange[]): void {
+  for (const { keys, to } of changes) {
+    const node = doc.getIn(keys, true);
+    if (to === undefined) {
+      doc.deleteIn(keys);
+    } else if (
+      isScalar(node) &&
+      typeof node.value === typeof to &&
+      (to === null || typeof to !== "object")
+    ) {
+      // Update scalars of the same type in place to keep their comments
+      node.value = to;
+    } else {
+      doc.setIn(keys, doc.createNode(to));
+    }
+  }
+}
+
+/**
+ * Parses the existing YAML file, which must hold an object.
+ * @throws Error if the file cannot be parsed or does not hold an object
+ */
+function parseExistingDocument(
+  text: string,
+  targetPath: string,
+): { doc: Document; existing: Record<string, unknown> } {
+  const doc = parseDocument(text);
+  if (doc.errors.length > 0) {
+    throw new Error(
+      `Cannot update ${targetPath}: existing file is not valid YAML: ${doc.errors[0].message}`,
+    );
+  }
+  const existing = doc.toJS() ?? {};
+  if (!isPlainObject(existing)) {
+    throw new Error(
+      `Cannot update ${targetPath}: existing file must contain an object`,
+    );
+  }
+  return { doc, existing };
+}
+
+/**
+ * Detects the indentation of a JSON or YAML file from its first indented
+ * line, defaulting to two spaces.
+ */
+function detectIndent(text: string): string {
+  return /^([ \t]+)\S/m.exec(text)?.[1] ?? "  ";
+}
+
+/**
+ * Builds the content of a new file from only its managed paths, in the
+ * order they are listed.
+ */
+export function pickManagedPaths(file: FileContent): Record<string, unknown> {
+  const managed = getManagedContent(file);
+  const result: Record<string, unknown> = {};
+  for (const path of file.managedPaths ?? []) {
+    const keys = path.split(".");
+    const value = getAtPath(managed, keys);
+    if (value !== undefined) {
+      setAtPath(result, keys, structuredClone(value));
+    }
+  }
+  return result;
+}
+
+/**
+ * Updates a file's managed paths in the repo's existing copy and leaves all
+ * other values and key order untouched. The file is returned as-is if
+ * nothing changed. Otherwise it is written with its detected indentation:
+ * YAML keeps its comments and scalar styles, but flow collections are
+ * re-spaced (`{a: 1}` becomes `{ a: 1 }`); JSON is re-serialized, so
+ * inline objects and arrays are expanded onto several lines.
+ * @param file - File with managedPaths and its managed content
+ * @param filePath - Absolute path of the file in the clone
+ * @param targetPath - Path in the repo, for error messages
+ * @throws Error if the file cannot be parsed or does not hold an object
+ */
+export function updateManagedPaths(
+  file: FileContent,
+  filePath: string,
+  targetPath: string,
+): ManagedPathsResult {
+  const text = readFileSync(filePath, "utf-8");
+  const managed = getManagedContent(file);
+  const managedPaths = file.managedPaths ?? [];
+
+  if (detectOutputFormat(targetPath) === "yaml") {
+    const { doc, existing } = parseExistingDocument(text, targetPath);
+    const changes = diffManagedPaths(
+      managedPaths,
+      existing,
+      managed,
+      targetPath,
+    );
+    if (changes.length === 0) return { text, changes };
+
+    updateDocument(
+      doc,
+      changes.map(({ path, to }) => ({ keys: path.split("."), to })),
+    );
+    return {
+      text: doc.toString({ indent: detectIndent(text).length }),
+      changes,
+    };
+  }
+
+  const existing = readExistingContent(filePath, targetPath);
+  const changes = diffManagedPaths(managedPaths, existing, managed, targetPath);
+  if (changes.length === 0) return { text, changes };
+
+  for (const { path, to } of changes) {
+    const keys = path.split(".");
+    if (to === undefined) {
+      deleteAtPath(existing, keys);
+    } else {
+      setAtPath(existing, keys, structuredClone(to));
+    }
+  }
+  return { text: JSON.stringify(existing, null, detectIndent(text)), changes };
+}
@@ -308,6 +308,17 @@ describe("GitOps", () => {
 
       assert.ok(!existsSync(join(workDir, "test.json")));
     });
+
+    test("creates missing parent directories", () => {
+      const gitOps = new GitOps({ workDir });
+      gitOps.writeFile("packages/web/tsconfig.json", "{}");
+
+      const content = readFileSync(
+        join(workDir, "packages/web/tsconfig.json"),
+        "utf-8",
+      );
+      assert.equal(content, "{}\n");
+    });
   });
 
   describe("wouldChange", () => {
@@ -0,0 +1,34 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { globToRegExp, matchesGlob } from "./glob-utils.js";
+
+describe("globToRegExp", () => {
+  test("anchors the pattern", () => {
+    assert.equal(globToRegExp("org/repo").source, "^org\\/repo$");
+  });
+
+  test("escapes regex special characters", () => {
+    assert.equal(matchesGlob("my.repo", "my.repo"), true);
+    assert.equal(matchesGlob("myXrepo", "my.repo"), false);
+    assert.equal(matchesGlob("a+b(c)", "a+b(c)"), true);
+  });
+});
+
+describe("matchesGlob", () => {
+  test("* matches within a path segment", () => {
+    assert.equal(matchesGlob("my-org/web-app", "my-org/web-*"), true);
+    assert.equal(matchesGlob("my-org/api", "my-org/web-*"), false);
+    assert.equal(matchesGlob("org/project/repo", "org/*"), false);
+  });
+
+  test("** matches across path segments", () => {
+    assert.equal(matchesGlob("org/project/repo", "org/**"), true);
+    assert.equal(matchesGlob("packages/a/b/tsconfig.json", "**/*.json"), true);
+  });
+
+  test("? matches a single character", () => {
+    assert.equal(matchesGlob("repo1", "repo?"), true);
+    assert.equal(matchesGlob("repo12", "repo?"), false);
+    assert.equal(matchesGlob("a/b", "a?b"), false);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Minimal glob matching for repo selectors and path patterns.
+ * Supports `*` (any characters except `/`), `**` (any characters,
+ * including `/`) and `?` (a single character except `/`).
+ */
+
+/**
+ * Converts a glob pattern to an anchored regular expression.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        source += ".*";
+        i++;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Checks if a value matches a glob pattern.
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
@@ -1,7 +1,14 @@
 import { test, describe, beforeEach, afterEach } from "node:test";
 import { strict as assert } from "node:assert";
 import { execFileSync } from "node:child_process";
-import { writeFileSync, rmSync, mkdirSync, existsSync } from "node:fs";
+import {
+  writeFileSync,
+  readFileSync,
+  rmSync,
+  mkdirSync,
+  existsSync,
+} from "node:fs";
+import { randomBytes } from "node:crypto";
 import { join } from "node:path";
 
 const testDir = join(process.cwd(), "test-cli-tmp");
@@ -60,6 +67,9 @@ describe("CLI", () => {
       assert.ok(result.stdout.includes("-w, --work-dir"));
       assert.ok(result.stdout.includes("-r, --retries"));
       assert.ok(result.stdout.includes("-b, --branch"));
+      assert.ok(result.stdout.includes("-t, --tag"));
+      assert.ok(result.stdout.includes("--repo"));
+      assert.ok(result.stdout.includes("-f, --filter"));
     });
 
     test("requires --config option", () => {
@@ -417,4 +427,229 @@ repos:
       );
     });
   });
+
+  describe("repo filtering", () => {
+    const taggedConfig = `
+files:
+  test.json:
+    content:
+      key: value
+repos:
+  - git: git@github.com:test/frontend-repo.git
+    tags: [frontend]
+  - git: git@github.com:test/backend-repo.git
+    tags: [backend]
+`;
+
+    test("--tag selects tagged repos and echoes the filter", () => {
+      writeFileSync(testConfigPath, taggedConfig);
+
+      const result = runCLI([
+        "-c",
+        testConfigPath,
+        "--dry-run",
+        "--tag",
+        "frontend",
+        "-w",
+        `${testDir}/work`,
+      ]);
+      const output = result.stdout + result.stderr;
+      assert.ok(
+        output.includes(
+          "Filter: tags: frontend (1 of 2 repositories selected)",
+        ),
+      );
+      assert.ok(output.includes("Found 1 repositories to process"));
+      assert.ok(!output.includes("backend-repo"));
+    });
+
+    test("fails when no repositories match", () => {
+      writeFileSync(testConfigPath, taggedConfig);
+
+      const result = runCLI([
+        "-c",
+        testConfigPath,
+        "--dry-run",
+        "--repo",
+        "other-org/*",
+        "-w",
+        `${testDir}/work`,
+      ]);
+      assert.equal(result.success, false);
+      const output = result.stdout + result.stderr;
+      assert.ok(output.includes("No repositories match the filter"));
+    });
+
+    test("fails on invalid --filter expression", () => {
+      writeFileSync(testConfigPath, taggedConfig);
+
+      const result = runCLI([
+        "-c",
+        testConfigPath,
+        "--dry-run",
+        "--filter",
+        "frontend",
+        "-w",
+        `${testDir}/work`,
+      ]);
+      assert.equal(result.success, false);
+      const output = result.stdout + result.stderr;
+      assert.ok(output.includes("Invalid filter term 'frontend'"));
+    });
+  });
+
+  describe("interpolation values", () => {
+    const orgConfig = `
+files:
+  test.json:
+    content:
+      port: \${CLI_TEST_PORT:int:-80}
+repos:
+  - git: git@github.com:\${CLI_TEST_ORG}/repo.git
+`;
+
+    test("--set supplies values for interpolation", () => {
+      writeFileSync(testConfigPath, orgConfig);
+
+      const result = runCLI([
+        "-c",
+        testConfigPath,
+        "--dry-run",
+        "--set",
+        "CLI_TEST_ORG=set-org",
+        "--repo",
+        "set-org/*",
+        "-w",
+        `${testDir}/work`,
+      ]);
+      const output = result.stdout + result.stderr;
+      assert.ok(output.includes("(1 of 1 repositories selected)"));
+    });
+
+    test("--set overrides --env-file values", () => {
+      writeFileSync(testConfigPath, orgConfig);
+      const envFile = join(testDir, "test.env");
+      writeFileSync(envFile, "CLI_TEST_ORG=file-org\nCLI_TEST_PORT=8080\n");
+
+      const fromFile = runCLI([
+        "-c",
+        testConfigPath,
+        "--dry-run",
+        "--env-file",
+        envFile,
+        "--repo",
+        "file-org/*",
+        "-w",
+        `${testDir}/work`,
+      ]);
+      assert.ok(
+        (fromFile.stdout + fromFile.stderr).includes(
+          "(1 of 1 repositories selected)",
+        ),
+      );
+
+      const overridden = runCLI([
+        "-c",
+        testConfigPath,
+        "--dry-run",
+        "--env-file",
+        envFile,
+        "--set",
+        "CLI_TEST_ORG=set-org",
+        "--repo",
+        "file-org/*",
+        "-w",
+        `${testDir}/work`,
+      ]);
+      assert.equal(overridden.success, false);
+      assert.ok(
+        (overridden.stdout + overridden.stderr).includes(
+          "No repositories match the filter",
+        ),
+      );
+    });
+
+    test("never echoes supplied values in errors", () => {
+      writeFileSync(testConfigPath, orgConfig);
+
+      const result = runCLI([
+        "-c",
+        testConfigPath,
+        "--dry-run",
+        "--set",
+        "CLI_TEST_ORG=org",
+        "--set",
+        "CLI_TEST_PORT=s3cr3t-value",
+      ]);
+      assert.equal(result.success, false);
+      const output = result.stdout + result.stderr;
+      assert.ok(output.includes("CLI_TEST_PORT: value is not an integer"));
+      assert.ok(!output.includes("s3cr3t-value"));
+    });
+
+    test("fails on an invalid --set option", () => {
+      writeFileSync(testConfigPath, orgConfig);
+
+      const result = runCLI([
+        "-c",
+        testConfigPath,
+        "--dry-run",
+        "--set",
+        "s3cr3t-value",
+      ]);
+      assert.equal(result.success, false);
+      const output = result.stdout + result.stderr;
+      assert.ok(output.includes("Invalid --set option: expected KEY=VALUE"));
+      assert.ok(!output.includes("s3cr3t-value"));
+    });
+  });
+
+  describe("encrypt command", () => {
+    test("encrypts a value that sync then decrypts", () => {
+      const keyFile = join(testDir, "config.key");
+      writeFileSync(keyFile, randomBytes(32).toString("base64"));
+      writeFileSync(
+        testConfigPath,
+        `
+files:
+  test.json:
+    content:
+      password: cli-s3cr3t
+repos:
+  - git: git@github.com:test/repo.git
+`,
+      );
+
+      const result = runCLI([
+        "encrypt",
+        "-c",
+        testConfigPath,
+        "--key-file",
+        keyFile,
+        'files["test.json"].content.password',
+      ]);
+      assert.equal(result.success, true, result.stderr);
+      assert.ok(
+        result.stdout.includes('Encrypted files["test.json"].content.password'),
+      );
+
+      const content = readFileSync(testConfigPath, "utf-8");
+      assert.match(content, /password: ENC\[/);
+      assert.ok(!content.includes("cli-s3cr3t"));
+
+      const missingKey = runCLI(["-c", testConfigPath, "--dry-run"]);
+      assert.ok(
+        missingKey.stderr.includes(
+          'files["test.json"].content.password is encrypted but no key was given',
+        ),
+      );
+    });
+
+    test("requires a key", () => {
+      writeFileSync(testConfigPath, "vars:\n  token: abc\n");
+      const result = runCLI(["encrypt", "-c", testConfigPath, "vars.token"]);
+      assert.equal(result.success, false);
+      assert.ok(result.stderr.includes("No encryption key"));
+    });
+  });
 });
@@ -4,7 +4,13 @@ import { program } from "commander";
 import { resolve, join, dirname } from "node:path";
 import { existsSync, readFileSync } from "node:fs";
 import { fileURLToPath } from "node:url";
-import { loadConfig } from "./config.js";
+import { loadConfigWithDiscovery } from "./config.js";
+import { buildInterpolationEnv } from "./env-file.js";
+import {
+  encryptConfigValue,
+  loadEncryptionKey,
+  KEY_ENV_VAR,
+} from "./encryption.js";
 
 // Get version from package.json
 const __filename = fileURLToPath(import.meta.url);
@@ -15,6 +21,7 @@ const packageJson = JSON.parse(
 import { parseGitUrl, getRepoDisplayName } from "./repo-detector.js";
 import { sanitizeBranchName, validateBranchName } from "./git-ops.js";
 import { logger } from "./logger.js";
+import { redactSecrets } from "./redact.js";
 import { generateWorkspaceName } from "./workspace-utils.js";
 import {
   RepositoryProcessor,
@@ -23,6 +30,14 @@ import {
 import { RepoConfig } from "./config.js";
 import { RepoInfo } from "./repo-detector.js";
 import { ProcessorOptions } from "./repository-processor.js";
+import {
+  RepoFilter,
+  createRepoFilter,
+  addFilterExpression,
+  filterRepos,
+  isFilterEmpty,
+  describeFilter,
+} from "./repo-filter.js";
 
 /**
  * Processor interface for dependency injection in tests.
@@ -53,6 +68,19 @@ interface CLIOptions {
   workDir?: string;
   retries?: number;
   branch?: string;
+  tag: string[];
+  repo: string[];
+  filter?: string;
+  envFile: string[];
+  set: string[];
+  keyFile?: string;
+}
+
+/**
+ * Collects repeatable option values into an array.
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
 }
 
 program
@@ -72,10 +100,75 @@ program
     "-b, --branch <name>",
     "Override the branch name (default: chore/sync-{filename} or chore/sync-config)",
   )
-  .parse();
+  .option(
+    "-t, --tag <tags>",
+    "Only process repos with any of these tags (comma-separated, repeatable)",
+    collect,
+    [],
+  )
+  .option(
+    "--repo <glob>",
+    "Only process repos matching this glob, e.g. my-org/web-* (repeatable)",
+    collect,
+    [],
+  )
+  .option(
+    "-f, --filter <expression>",
+    "Select repos with tag:<name> and repo:<glob> terms, e.g. tag:frontend,repo:my-org/*",
+  )
+  .option(
+    "--env-file <path>",
+    "Load interpolation values from a dotenv file (repeatable, later files win)",
+    collect,
+    [],
+  )
+  .option(
+    "--set <key=value>",
+    "Set an interpolation value, overriding env files and the environment (repeatable)",
+    collect,
+    [],
+  )
+  .option(
+    "--key-file <path>",
+    `Key file for encrypted config values (default: the ${KEY_ENV_VAR} variable)`,
+  )
+  .action(() => main().catch(handleFatalError));
+
+program
+  .command("encrypt")
+  .description(
+    "Encrypt a plaintext value of the config file in place, e.g. encrypt -c config.yaml 'files[\"app.json\"].content.token'",
+  )
+  .argument("<path>", "Path of the value in the config file")
+  .action((valuePath: string) => {
+    try {
+      encryptCommand(valuePath);
+    } catch (error) {
+      handleFatalError(error);
+    }
+  });
 
 const options = program.opts<CLIOptions>();
 
+/**
+ * Encrypts a value of the config file in place with the --key-file or
+ * JSON_CONFIG_SYNC_KEY key.
+ */
+function encryptCommand(valuePath: string): void {
+  const configPath = resolve(options.config);
+  const key = loadEncryptionKey({
+    keyFile: options.keyFile && resolve(options.keyFile),
+  });
+  if (!key) {
+    throw new Error(
+      `No encryption key: use --key-file or set ${KEY_ENV_VAR} (generate one with 'openssl rand -base64 32')`,
+    );
+  }
+
+  encryptConfigValue(configPath, valuePath, key);
+  console.log(`Encrypted ${valuePath} in ${configPath}`);
+}
+
 /**
  * Get unique file names from all repos in the config
  */
@@ -99,6 +192,26 @@ function generateBranchName(fileNames: string[]): string {
   return "chore/sync-config";
 }
 
+/**
+ * Build the repo filter from --tag, --repo and --filter options
+ */
+function buildRepoFilter(opts: CLIOptions): RepoFilter {
+  const filter = createRepoFilter();
+  for (const tags of opts.tag) {
+    filter.tags.push(
+      ...tags
+        .split(",")
+        .map((t) => t.trim())
+        .filter((t) => t !== ""),
+    );
+  }
+  filter.repos.push(...opts.repo);
+  if (opts.filter) {
+    addFilterExpression(filter, opts.filter);
+  }
+  return filter;
+}
+
 /**
  * Format file names for display
  */
@@ -125,8 +238,20 @@ async function main(): Promise<void> {
     console.log("Running in DRY RUN mode - no changes will be made\n");
   }
 
-  const config = loadConfig(configPath);
-  const fileNames = getUniqueFileNames(config);
+  const filter = buildRepoFilter(options);
+  // Values from --env-file / --set are only used for interpolation and
+  // are never logged
+  const env = buildInterpolationEnv(
+    options.envFile.map((path) => resolve(path)),
+    options.set,
+  );
+  const config = await loadConfigWithDiscovery(configPath, {
+    retries: options.retries,
+    env,
+    keyFile: options.keyFile && resolve(options.keyFile),
+  });
+  const repos = filterRepos(config.repos, filter);
+  const fileNames = getUniqueFileNames({ repos });
 
   let branchName: string;
   if (options.branch) {
@@ -136,15 +261,25 @@ async function main(): Promise<void> {
     branchName = generateBranchName(fileNames);
   }
 
-  logger.setTotal(config.repos.length);
-  console.log(`Found ${config.repos.length} repositories to process`);
+  if (!isFilterEmpty(filter)) {
+    console.log(
+      `Filter: ${describeFilter(filter)} (${repos.length} of ${config.repos.length} repositories selected)`,
+    );
+    if (repos.length === 0) {
+      console.error("No repositories match the filter");
+      process.exit(1);
+    }
+  }
+
+  logger.setTotal(repos.length);
+  console.log(`Found ${repos.length} repositories to process`);
   console.log(`Target files: ${formatFileNames(fileNames)}`);
   console.log(`Branch: ${branchName}\n`);
 
   const processor = defaultProcessorFactory();
 
-  for (let i = 0; i < config.repos.length; i++) {
-    const repoConfig = config.repos[i];
+  for (let i = 0; i < repos.length; i++) {
+    const repoConfig = repos[i];
     const current = i + 1;
 
     let repoInfo;
@@ -195,7 +330,12 @@ async function main(): Promise<void> {
   }
 }
 
-main().catch((error) => {
-  console.error("Fatal error:", error);
+function handleFatalError(error: unknown): never {
+  // Errors may carry resolved secrets (e.g. in git URLs), so redact them
+  const message =
+    error instanceof Error ? (error.stack ?? error.message) : String(error);
+  console.error("Fatal error:", redactSecrets(message));
   process.exit(1);
-});
+}
+
+program.parse();
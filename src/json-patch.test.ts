@@ -0,0 +1,172 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  describeInvalidOperation,
+  type JsonPatchOperation,
+} from "./json-patch.js";
+
+describe("applyJsonPatch", () => {
+  const document = {
+    compilerOptions: { target: "es2020", lib: ["es2020", "dom"] },
+    "a/b": { "c~d": 1 },
+  };
+
+  test("adds values to objects and inserts into arrays", () => {
+    const result = applyJsonPatch(document, [
+      { op: "add", path: "/compilerOptions/strict", value: true },
+      { op: "add", path: "/compilerOptions/lib/1", value: "es2022" },
+      { op: "add", path: "/compilerOptions/lib/-", value: "webworker" },
+    ]);
+    assert.deepEqual(result, {
+      compilerOptions: {
+        target: "es2020",
+        lib: ["es2020", "es2022", "dom", "webworker"],
+        strict: true,
+      },
+      "a/b": { "c~d": 1 },
+    });
+  });
+
+  test("removes and replaces values", () => {
+    const result = applyJsonPatch(document, [
+      { op: "remove", path: "/compilerOptions/lib/0" },
+      { op: "replace", path: "/compilerOptions/target", value: "es2022" },
+      { op: "remove", path: "/a~1b/c~0d" },
+    ]);
+    assert.deepEqual(result, {
+      compilerOptions: { target: "es2022", lib: ["dom"] },
+      "a/b": {},
+    });
+  });
+
+  test("moves and copies values", () => {
+    const result = applyJsonPatch(document, [
+      { op: "copy", from: "/compilerOptions/lib", path: "/lib" },
+      { op: "move", from: "/compilerOptions/target", path: "/target" },
+      { op: "add", path: "/lib/-", value: "copied" },
+    ]);
+    assert.deepEqual(result, {
+      compilerOptions: { lib: ["es2020", "dom"] },
+      "a/b": { "c~d": 1 },
+      lib: ["es2020", "dom", "copied"],
+      target: "es2020",
+    });
+  });
+
+  test("replaces the whole document for an empty path", () => {
+    assert.deepEqual(
+      applyJsonPatch(document, [{ op: "replace", path: "", value: { a: 1 } }]),
+      { a: 1 },
+    );
+  });
+
+  test("passes matching test ops", () => {
+    const result = applyJsonPatch(document, [
+      { op: "test", path: "/compilerOptions/lib", value: ["es2020", "dom"] },
+      { op: "replace", path: "/compilerOptions/target", value: "es2022" },
+    ]);
+    assert.equal((result as typeof document).compilerOptions.target, "es2022");
+  });
+
+  test("does not modify the input document", () => {
+    applyJsonPatch(document, [{ op: "remove", path: "/compilerOptions" }]);
+    assert.equal(document.compilerOptions.target, "es2020");
+  });
+
+  test("names the index of a failing test op", () => {
+    assert.throws(
+      () =>
+        applyJsonPatch(document, [
+          { op: "add", path: "/x", value: 1 },
+          { op: "test", path: "/compilerOptions/target", value: "es2022" },
+        ]),
+      {
+        message:
+          'patch op 1 (test /compilerOptions/target) failed: value at \'/compilerOptions/target\' is "es2020", expected "es2022"',
+      },
+    );
+  });
+
+  test("fails for missing paths and out of range indexes", () => {
+    const failing: JsonPatchOperation[] = [
+      { op: "remove", path: "/missing" },
+      { op: "replace", path: "/compilerOptions/lib/2", value: "x" },
+      { op: "add", path: "/compilerOptions/lib/3", value: "x" },
+      { op: "add", path: "/missing/key", value: "x" },
+      { op: "copy", from: "/missing", path: "/x" },
+    ];
+    for (const operation of failing) {
+      assert.throws(
+        () => applyJsonPatch(document, [operation]),
+        /failed: path '.*' does not exist/,
+        operation.path,
+      );
+    }
+  });
+
+  test("fails to move a value into itself", () => {
+    assert.throws(
+      () =>
+        applyJsonPatch(document, [
+          { op: "move", from: "/compilerOptions", path: "/compilerOptions/x" },
+        ]),
+      /cannot move '\/compilerOptions' into itself/,
+    );
+  });
+});
+
+describe("applyMergePatch", () => {
+  test("merges objects, removes null keys and replaces other values", () => {
+    const result = applyMergePatch(
+      { a: "b", c: { d: "e", f: "g" }, list: [1, 2] },
+      { a: "z", c: { f: null }, list: [3], added: { x: 1 } },
+    );
+    assert.deepEqual(result, {
+      a: "z",
+      c: { d: "e" },
+      list: [3],
+      added: { x: 1 },
+    });
+  });
+
+  test("replaces non-object targets", () => {
+    assert.deepEqual(applyMergePatch({ a: "text" }, { a: { b: 1 } }), {
+      a: { b: 1 },
+    });
+  });
+});
+
+describe("describeInvalidOperation", () => {
+  test("accepts valid operations", () => {
+    for (const operation of [
+      { op: "add", path: "/a", value: null },
+      { op: "remove", path: "/a" },
+      { op: "move", from: "/a", path: "/b" },
+      { op: "test", path: "", value: {} },
+    ]) {
+      assert.equal(describeInvalidOperation(operation), undefined);
+    }
+  });
+
+  test("describes invalid operations", () => {
+    assert.equal(describeInvalidOperation("add"), "must be an object");
+    assert.match(
+      describeInvalidOperation({ op: "merge", path: "/a" }) ?? "",
+      /op must be one of: add, remove, replace, move, copy, test/,
+    );
+    assert.match(
+      describeInvalidOperation({ op: "remove", path: "a" }) ?? "",
+      /path must be a JSON Pointer/,
+    );
+    assert.match(
+      describeInvalidOperation({ op: "copy", path: "/a" }) ?? "",
+      /from must be a JSON Pointer/,
+    );
+    assert.equal(
+      describeInvalidOperation({ op: "replace", path: "/a" }),
+      "replace requires a value",
+    );
+  });
+});
@@ -0,0 +1,281 @@
+import { isDeepStrictEqual } from "node:util";
+import { isPlainObject } from "./merge.js";
+
+/**
+ * JSON Patch (RFC 6902) and JSON Merge Patch (RFC 7396) for per-repo
+ * content tweaks that deep merge overlays can't express.
+ */
+
+export const JSON_PATCH_OPS = [
+  "add",
+  "remove",
+  "replace",
+  "move",
+  "copy",
+  "test",
+] as const;
+
+export type JsonPatchOperation =
+  | { op: "add" | "replace" | "test"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "move" | "copy"; path: string; from: string };
+
+type Container = Record<string, unknown> | unknown[];
+
+/**
+ * Splits a JSON Pointer into unescaped reference tokens.
+ */
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new Error(`'${pointer}' is not a JSON Pointer (must start with /)`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Parses an array index token. "-" (past the end) is only allowed when
+ * adding.
+ */
+function parseIndex(
+  array: unknown[],
+  token: string,
+  pointer: string,
+  forAdd: boolean,
+): number {
+  if (forAdd && token === "-") return array.length;
+
+  const max = forAdd ? array.length : array.length - 1;
+  if (!/^(0|[1-9]\d*)$/.test(token) || Number(token) > max) {
+    throw new Error(`path '${pointer}' does not exist`);
+  }
+  return Number(token);
+}
+
+/**
+ * Resolves the container holding the location a pointer refers to.
+ */
+function resolveParent(
+  document: unknown,
+  tokens: string[],
+  pointer: string,
+): Container {
+  let node = document;
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(node)) {
+      node = node[parseIndex(node, token, pointer, false)];
+    } else if (isPlainObject(node) && Object.hasOwn(node, token)) {
+      node = node[token];
+    } else {
+      throw new Error(`path '${pointer}' does not exist`);
+    }
+  }
+
+  if (!Array.isArray(node) && !isPlainObject(node)) {
+    throw new Error(`path '${pointer}' does not exist`);
+  }
+  return node;
+}
+
+function getValue(document: unknown, pointer: string): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return document;
+
+  const parent = resolveParent(document, tokens, pointer);
+  const token = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    return parent[parseIndex(parent, token, pointer, false)];
+  }
+  if (!Object.hasOwn(parent, token)) {
+    throw new Error(`path '${pointer}' does not exist`);
+  }
+  return parent[token];
+}
+
+function addValue(document: unknown, pointer: string, value: unknown): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return value;
+
+  const parent = resolveParent(document, tokens, pointer);
+  const token = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(parseIndex(parent, token, pointer, true), 0, value);
+  } else {
+    parent[token] = value;
+  }
+  return document;
+}
+
+function removeValue(document: unknown, pointer: string): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) {
+    throw new Error("cannot remove the whole document");
+  }
+
+  getValue(document, pointer);
+  const parent = resolveParent(document, tokens, pointer);
+  const token = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(Number(token), 1);
+  } else {
+    delete parent[token];
+  }
+  return document;
+}
+
+function replaceValue(
+  document: unknown,
+  pointer: string,
+  value: unknown,
+): unknown {
+  const tokens = parsePointer(pointer);
+  if (tokens.length === 0) return value;
+
+  getValue(document, pointer);
+  const parent = resolveParent(document, tokens, pointer);
+  const token = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent[Number(token)] = value;
+  } else {
+    parent[token] = value;
+  }
+  return document;
+}
+
+/**
+ * Applies a single operation to document (mutated in place where possible).
+ */
+function applyOperation(
+  document: unknown,
+  operation: JsonPatchOperation,
+): unknown {
+  switch (operation.op) {
+    case "add":
+      return addValue(
+        document,
+        operation.path,
+        structuredClone(operation.value),
+      );
+    case "remove":
+      return removeValue(document, operation.path);
+    case "replace":
+      return replaceValue(
+        document,
+        operation.path,
+        structuredClone(operation.value),
+      );
+    case "move": {
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new Error(`cannot move '${operation.from}' into itself`);
+      }
+      const value = getValue(document, operation.from);
+      return addValue(
+        removeValue(document, operation.from),
+        operation.path,
+        value,
+      );
+    }
+    case "copy":
+      return addValue(
+        document,
+        operation.path,
+        structuredClone(getValue(document, operation.from)),
+      );
+    case "test": {
+      const actual = getValue(document, operation.path);
+      if (!isDeepStrictEqual(actual, operation.value)) {
+        throw new Error(
+          `value at '${operation.path}' is ${JSON.stringify(actual)}, expected ${JSON.stringify(operation.value)}`,
+        );
+      }
+      return document;
+    }
+  }
+}
+
+/**
+ * Returns why a value is not a valid JSON Patch operation, or undefined if
+ * it is valid.
+ */
+export function describeInvalidOperation(
+  operation: unknown,
+): string | undefined {
+  if (!isPlainObject(operation)) {
+    return "must be an object";
+  }
+  if (!JSON_PATCH_OPS.includes(operation.op as JsonPatchOperation["op"])) {
+    return `op must be one of: ${JSON_PATCH_OPS.join(", ")}`;
+  }
+  const pointerFields =
+    operation.op === "move" || operation.op === "copy"
+      ? ["path", "from"]
+      : ["path"];
+  for (const field of pointerFields) {
+    const pointer = operation[field];
+    if (
+      typeof pointer !== "string" ||
+      (pointer !== "" && !pointer.startsWith("/"))
+    ) {
+      return `${field} must be a JSON Pointer like /compilerOptions/target`;
+    }
+  }
+  if (
+    (operation.op === "add" ||
+      operation.op === "replace" ||
+      operation.op === "test") &&
+    !("value" in operation)
+  ) {
+    return `${operation.op} requires a value`;
+  }
+  return undefined;
+}
+
+/**
+ * Applies JSON Patch operations (RFC 6902) in order. The document is not
+ * modified.
+ * @throws Error naming the index and path of the first failing operation
+ */
+export function applyJsonPatch(
+  document: unknown,
+  operations: JsonPatchOperation[],
+): unknown {
+  let result = structuredClone(document);
+
+  operations.forEach((operation, index) => {
+    try {
+      result = applyOperation(result, operation);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `patch op ${index} (${operation.op} ${operation.path}) failed: ${message}`,
+      );
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Applies a JSON Merge Patch (RFC 7396): objects are merged recursively,
+ * null removes a key and any other value replaces the target.
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(patch)) {
+    return structuredClone(patch);
+  }
+
+  const result: Record<string, unknown> = isPlainObject(target)
+    ? { ...target }
+    : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+}
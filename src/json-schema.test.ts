@@ -0,0 +1,171 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  validateJsonSchema,
+  formatSchemaPath,
+  type JsonSchema,
+} from "./json-schema.js";
+
+function messages(value: unknown, schema: JsonSchema): string[] {
+  return validateJsonSchema(value, schema).map(
+    (e) => `${formatSchemaPath(e.path)}: ${e.message}`,
+  );
+}
+
+describe("validateJsonSchema", () => {
+  test("returns no errors for a valid value", () => {
+    const schema: JsonSchema = {
+      type: "object",
+      properties: { name: { type: "string" } },
+    };
+    assert.deepEqual(validateJsonSchema({ name: "x" }, schema), []);
+  });
+
+  test("checks types, including type arrays", () => {
+    assert.deepEqual(messages(1, { type: "string" }), [": must be a string"]);
+    assert.deepEqual(messages(null, { type: ["string", "number"] }), [
+      ": must be a string or a number",
+    ]);
+    assert.deepEqual(messages([], { type: "object" }), [": must be an object"]);
+    assert.deepEqual(messages(1.5, { type: "integer" }), [
+      ": must be an integer",
+    ]);
+  });
+
+  test("checks enum and const", () => {
+    assert.deepEqual(messages("x", { enum: ["a", "b"] }), [
+      ': must be one of: a, b (got "x")',
+    ]);
+    assert.deepEqual(messages(true, { const: false }), [": must be false"]);
+  });
+
+  test("checks string, array and object sizes", () => {
+    assert.deepEqual(messages("", { minLength: 1 }), [": must not be empty"]);
+    assert.deepEqual(messages([], { minItems: 1 }), [": must not be empty"]);
+    assert.deepEqual(messages({}, { minProperties: 1 }), [
+      ": must not be empty",
+    ]);
+  });
+
+  test("checks pattern and property names", () => {
+    const schema: JsonSchema = {
+      type: "object",
+      propertyNames: { pattern: "^[a-z]+$" },
+    };
+    const errors = validateJsonSchema({ ok: 1, "Bad-Name": 2 }, schema);
+    assert.equal(errors.length, 1);
+    assert.deepEqual(errors[0].path, ["Bad-Name"]);
+    assert.equal(errors[0].keyword, "propertyNames");
+    assert.match(errors[0].message, /name 'Bad-Name' must match pattern/);
+  });
+
+  test("collects every error instead of stopping at the first", () => {
+    const schema: JsonSchema = {
+      type: "object",
+      required: ["id"],
+      properties: {
+        name: { type: "string" },
+        items: { type: "array", items: { type: "number" } },
+      },
+    };
+    assert.deepEqual(
+      messages({ name: 1, items: [1, "two", 3, "four"] }, schema),
+      [
+        ": missing required field: id",
+        "name: must be a string",
+        "items[1]: must be a number",
+        "items[3]: must be a number",
+      ],
+    );
+  });
+
+  test("validates additionalProperties as a schema or false", () => {
+    assert.deepEqual(
+      messages({ a: 1, b: "x" }, { additionalProperties: { type: "number" } }),
+      ["b: must be a number"],
+    );
+
+    const errors = validateJsonSchema(
+      { known: 1, extra: 2 },
+      { properties: { known: {} }, additionalProperties: false },
+    );
+    assert.deepEqual(errors, [
+      {
+        path: ["extra"],
+        message: "unknown key 'extra'",
+        keyword: "additionalProperties",
+      },
+    ]);
+  });
+
+  test("resolves $ref to definitions", () => {
+    const schema: JsonSchema = {
+      type: "array",
+      items: { $ref: "#/definitions/item" },
+      definitions: { item: { type: "string" } },
+    };
+    assert.deepEqual(messages(["a", 2], schema), ["[1]: must be a string"]);
+  });
+
+  test("throws on unsupported $ref", () => {
+    assert.throws(
+      () => validateJsonSchema(1, { $ref: "other.json#/x" }),
+      /Unsupported schema reference: other.json#\/x/,
+    );
+  });
+
+  describe("oneOf / anyOf", () => {
+    const stringOrList: JsonSchema = {
+      oneOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+    };
+
+    test("passes when exactly one branch matches", () => {
+      assert.deepEqual(validateJsonSchema("a", stringOrList), []);
+      assert.deepEqual(validateJsonSchema(["a"], stringOrList), []);
+    });
+
+    test("lists the allowed types when no branch type fits", () => {
+      assert.deepEqual(messages(42, stringOrList), [
+        ": must be a string or an array",
+      ]);
+    });
+
+    test("reports errors inside the branch whose type fits", () => {
+      assert.deepEqual(messages(["a", 1], stringOrList), [
+        "[1]: must be a string",
+      ]);
+    });
+
+    test("describes required-only alternatives", () => {
+      const schema: JsonSchema = {
+        oneOf: [{ required: ["git"] }, { required: ["discover"] }],
+      };
+      assert.deepEqual(messages({}, schema), [
+        ": missing required field: git or discover",
+      ]);
+      assert.deepEqual(messages({ git: "x", discover: {} }, schema), [
+        ": cannot have both git and discover",
+      ]);
+    });
+
+    test("anyOf passes when several branches match", () => {
+      const schema: JsonSchema = {
+        anyOf: [{ type: "string" }, { minLength: 1 }],
+      };
+      assert.deepEqual(validateJsonSchema("abc", schema), []);
+    });
+  });
+});
+
+describe("formatSchemaPath", () => {
+  test("formats keys and indices", () => {
+    assert.equal(
+      formatSchemaPath(["repos", 0, "files", "config.json", "content"]),
+      'repos[0].files["config.json"].content',
+    );
+  });
+
+  test("returns an empty string for the root", () => {
+    assert.equal(formatSchemaPath([]), "");
+  });
+});
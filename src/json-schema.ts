@@ -0,0 +1,374 @@
+import { formatUnknownKey } from "./suggest.js";
+import { isPlainObject } from "./merge.js";
+
+/**
+ * JSON Schema (draft-07 subset) used by config-schema.json.
+ * Annotation keywords (title, description, default, ...) are ignored.
+ */
+export interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  pattern?: string;
+  minLength?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: JsonSchema | boolean;
+  propertyNames?: JsonSchema;
+  required?: string[];
+  minProperties?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
+}
+
+export type SchemaPath = (string | number)[];
+
+export interface SchemaError {
+  // Location of the offending value (or key) in the document
+  path: SchemaPath;
+  message: string;
+  // Keyword that failed; "additionalProperties" and "propertyNames"
+  // errors refer to the key at path rather than its value
+  keyword: string;
+}
+
+const TYPE_NAMES: Record<string, string> = {
+  object: "an object",
+  array: "an array",
+  string: "a string",
+  number: "a number",
+  integer: "an integer",
+  boolean: "a boolean",
+  null: "null",
+};
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "object":
+      return isPlainObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "null":
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Joins alternatives as "a, b or c".
+ */
+function joinAlternatives(items: string[]): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} or ${items[items.length - 1]}`;
+}
+
+function describeTypes(types: string[]): string {
+  return joinAlternatives(types.map((t) => TYPE_NAMES[t] ?? t));
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Resolves a local "#/definitions/name" reference.
+ */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  const prefix = "#/definitions/";
+  const resolved = ref.startsWith(prefix)
+    ? root.definitions?.[ref.slice(prefix.length)]
+    : undefined;
+  if (!resolved) {
+    throw new Error(`Unsupported schema reference: ${ref}`);
+  }
+  return resolved;
+}
+
+function deref(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  return schema.$ref ? deref(resolveRef(root, schema.$ref), root) : schema;
+}
+
+function getTypes(schema: JsonSchema): string[] | undefined {
+  if (schema.type === undefined) return undefined;
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+/**
+ * Picks the errors to report when no anyOf/oneOf branch matches.
+ * Prefers the errors of the only branch whose type fits the value, so a
+ * mistake inside an object is reported there rather than as "must be a
+ * string or an object".
+ */
+function reportBranchMismatch(
+  value: unknown,
+  branches: JsonSchema[],
+  branchErrors: SchemaError[][],
+  path: SchemaPath,
+  root: JsonSchema,
+): SchemaError[] {
+  const resolved = branches.map((b) => deref(b, root));
+
+  const candidates = resolved
+    .map((branch, i) => ({ branch, errors: branchErrors[i] }))
+    .filter(({ branch }) => {
+      const types = getTypes(branch);
+      return types === undefined || types.some((t) => matchesType(value, t));
+    });
+
+  if (candidates.length === 0) {
+    const types = [
+      ...new Set(resolved.flatMap((branch) => getTypes(branch) ?? [])),
+    ];
+    return [
+      { path, message: `must be ${describeTypes(types)}`, keyword: "type" },
+    ];
+  }
+
+  if (resolved.every(isRequiredOnly)) {
+    const fields = resolved.flatMap((branch) => branch.required ?? []);
+    return [
+      {
+        path,
+        message: `missing required field: ${joinAlternatives(fields)}`,
+        keyword: "required",
+      },
+    ];
+  }
+
+  return candidates.reduce((best, candidate) =>
+    candidate.errors.length < best.errors.length ? candidate : best,
+  ).errors;
+}
+
+/**
+ * Checks if a schema only lists required fields (e.g. "git or discover").
+ */
+function isRequiredOnly(schema: JsonSchema): boolean {
+  return (
+    schema.required !== undefined &&
+    Object.keys(schema).every((key) => key === "required")
+  );
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: SchemaPath,
+  errors: SchemaError[],
+): void {
+  for (const key of schema.required ?? []) {
+    if (!(key in value)) {
+      errors.push({
+        path,
+        message: `missing required field: ${key}`,
+        keyword: "required",
+      });
+    }
+  }
+
+  const keys = Object.keys(value);
+  if (
+    schema.minProperties !== undefined &&
+    keys.length < schema.minProperties
+  ) {
+    errors.push({
+      path,
+      message: "must not be empty",
+      keyword: "minProperties",
+    });
+  }
+
+  for (const key of keys) {
+    const keyPath = [...path, key];
+
+    if (schema.propertyNames) {
+      for (const error of validateJsonSchema(key, schema.propertyNames, root)) {
+        errors.push({
+          path: keyPath,
+          message: `name '${key}' ${error.message}`,
+          keyword: "propertyNames",
+        });
+      }
+    }
+
+    const propertySchema = schema.properties?.[key];
+    if (propertySchema) {
+      validateNode(value[key], propertySchema, root, keyPath, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push({
+        path: keyPath,
+        message: formatUnknownKey(key, Object.keys(schema.properties ?? {})),
+        keyword: "additionalProperties",
+      });
+    } else if (isPlainObject(schema.additionalProperties)) {
+      validateNode(
+        value[key],
+        schema.additionalProperties,
+        root,
+        keyPath,
+        errors,
+      );
+    }
+  }
+}
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: SchemaPath,
+  errors: SchemaError[],
+): void {
+  if (schema.$ref) {
+    // Sibling keywords of $ref are ignored in draft-07
+    validateNode(value, resolveRef(root, schema.$ref), root, path, errors);
+    return;
+  }
+
+  const types = getTypes(schema);
+  if (types && !types.some((t) => matchesType(value, t))) {
+    errors.push({
+      path,
+      message: `must be ${describeTypes(types)}`,
+      keyword: "type",
+    });
+    return;
+  }
+
+  if ("const" in schema && !isDeepEqual(value, schema.const)) {
+    errors.push({
+      path,
+      message: `must be ${JSON.stringify(schema.const)}`,
+      keyword: "const",
+    });
+  }
+
+  if (schema.enum && !schema.enum.some((e) => isDeepEqual(value, e))) {
+    errors.push({
+      path,
+      message: `must be one of: ${schema.enum.join(", ")} (got ${JSON.stringify(value)})`,
+      keyword: "enum",
+    });
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({
+        path,
+        message:
+          schema.minLength === 1
+            ? "must not be empty"
+            : `must be at least ${schema.minLength} characters`,
+        keyword: "minLength",
+      });
+    }
+    if (
+      schema.pattern !== undefined &&
+      !new RegExp(schema.pattern).test(value)
+    ) {
+      errors.push({
+        path,
+        message: `must match pattern ${schema.pattern}`,
+        keyword: "pattern",
+      });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({
+        path,
+        message:
+          schema.minItems === 1
+            ? "must not be empty"
+            : `must have at least ${schema.minItems} items`,
+        keyword: "minItems",
+      });
+    }
+    if (schema.items) {
+      for (let i = 0; i < value.length; i++) {
+        validateNode(value[i], schema.items, root, [...path, i], errors);
+      }
+    }
+  }
+
+  if (isPlainObject(value)) {
+    validateObject(value, schema, root, path, errors);
+  }
+
+  if (schema.anyOf) {
+    const branchErrors = schema.anyOf.map((branch) =>
+      validateJsonSchema(value, branch, root, path),
+    );
+    if (!branchErrors.some((e) => e.length === 0)) {
+      errors.push(
+        ...reportBranchMismatch(value, schema.anyOf, branchErrors, path, root),
+      );
+    }
+  }
+
+  if (schema.oneOf) {
+    const branchErrors = schema.oneOf.map((branch) =>
+      validateJsonSchema(value, branch, root, path),
+    );
+    const matches = branchErrors.filter((e) => e.length === 0).length;
+    if (matches === 0) {
+      errors.push(
+        ...reportBranchMismatch(value, schema.oneOf, branchErrors, path, root),
+      );
+    } else if (matches > 1) {
+      const resolved = schema.oneOf.map((b) => deref(b, root));
+      errors.push({
+        path,
+        message: resolved.every(isRequiredOnly)
+          ? `cannot have both ${resolved.flatMap((b) => b.required ?? []).join(" and ")}`
+          : "must match exactly one of the allowed forms",
+        keyword: "oneOf",
+      });
+    }
+  }
+}
+
+/**
+ * Validates a value against a JSON Schema, collecting every error.
+ *
+ * @param value - The value to validate
+ * @param schema - The schema (or subschema) to validate against
+ * @param root - The root schema used to resolve $ref (default: schema)
+ * @param path - Path of value within the document (prefix for error paths)
+ * @returns All validation errors (empty if valid)
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema = schema,
+  path: SchemaPath = [],
+): SchemaError[] {
+  const errors: SchemaError[] = [];
+  validateNode(value, schema, root, path, errors);
+  return errors;
+}
+
+/**
+ * Formats a path as e.g. repos[0].files["config.json"].content.
+ */
+export function formatSchemaPath(path: SchemaPath): string {
+  let result = "";
+  for (const segment of path) {
+    if (typeof segment === "number") {
+      result += `[${segment}]`;
+    } else if (/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(segment)) {
+      result += result ? `.${segment}` : segment;
+    } else {
+      result += `[${JSON.stringify(segment)}]`;
+    }
+  }
+  return result;
+}
@@ -1,6 +1,7 @@
 import { test, describe, beforeEach, afterEach, mock } from "node:test";
 import { strict as assert } from "node:assert";
 import { Logger } from "./logger.js";
+import { clearSecrets, registerSecret } from "./redact.js";
 
 describe("Logger", () => {
   let logger: Logger;
@@ -163,4 +164,21 @@ describe("Logger", () => {
       assert.equal(logger2.hasFailures(), false);
     });
   });
+
+  describe("secret redaction", () => {
+    afterEach(() => {
+      clearSecrets();
+    });
+
+    test("redacts registered secrets from messages", () => {
+      registerSecret("s3cr3t");
+      logger.setTotal(1);
+      logger.error(1, "repo", "push failed for token s3cr3t");
+      logger.info("using s3cr3t");
+
+      assert.ok(!consoleLogs.some((line) => line.includes("s3cr3t")));
+      assert.ok(consoleLogs[0].includes("token ***"));
+      assert.ok(consoleLogs[1].includes("using ***"));
+    });
+  });
 });
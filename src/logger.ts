@@ -1,4 +1,5 @@
 import chalk from "chalk";
+import { redactSecrets } from "./redact.js";
 
 export interface ILogger {
   info(message: string): void;
@@ -11,6 +12,9 @@ export interface LoggerStats {
   skipped: number;
 }
 
+/**
+ * Console logger. Registered secret values are redacted from every message.
+ */
 export class Logger {
   private stats: LoggerStats = {
     total: 0,
@@ -26,19 +30,19 @@ export class Logger {
   progress(current: number, repoName: string, message: string): void {
     console.log(
       chalk.blue(`[${current}/${this.stats.total}]`) +
-        ` ${repoName}: ${message}`,
+        redactSecrets(` ${repoName}: ${message}`),
     );
   }
 
   info(message: string): void {
-    console.log(chalk.gray(`    ${message}`));
+    console.log(chalk.gray(redactSecrets(`    ${message}`)));
   }
 
   success(current: number, repoName: string, message: string): void {
     this.stats.succeeded++;
     console.log(
       chalk.green(`[${current}/${this.stats.total}] ✓`) +
-        ` ${repoName}: ${message}`,
+        redactSecrets(` ${repoName}: ${message}`),
     );
   }
 
@@ -46,7 +50,7 @@ export class Logger {
     this.stats.skipped++;
     console.log(
       chalk.yellow(`[${current}/${this.stats.total}] ⊘`) +
-        ` ${repoName}: Skipped - ${reason}`,
+        redactSecrets(` ${repoName}: Skipped - ${reason}`),
     );
   }
 
@@ -54,7 +58,7 @@ export class Logger {
     this.stats.failed++;
     console.log(
       chalk.red(`[${current}/${this.stats.total}] ✗`) +
-        ` ${repoName}: ${error}`,
+        redactSecrets(` ${repoName}: ${error}`),
     );
   }
 
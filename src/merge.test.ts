@@ -1,6 +1,7 @@
 import { test, describe } from "node:test";
 import { strict as assert } from "node:assert";
 import {
+  createMergeContext,
   deepMerge,
   stripMergeDirectives,
   type ArrayMergeStrategy,
@@ -93,6 +94,47 @@ describe("deepMerge", () => {
     assert.deepEqual(result, { items: [3, 4, 1, 2] });
   });
 
+  test("appends and drops duplicates when $arrayMerge: unique", () => {
+    const base = { extends: ["eslint:recommended", "prettier"] };
+    const overlay = {
+      extends: {
+        $arrayMerge: "unique",
+        values: ["prettier", "plugin:react/recommended", "prettier"],
+      },
+    };
+    const result = deepMerge(base, overlay, createContext());
+    assert.deepEqual(result, {
+      extends: ["eslint:recommended", "prettier", "plugin:react/recommended"],
+    });
+  });
+
+  test("prepends and drops duplicates when $arrayMerge: union-prepend", () => {
+    const base = { plugins: ["a", "b"] };
+    const overlay = {
+      plugins: { $arrayMerge: "union-prepend", values: ["c", "b"] },
+    };
+    const result = deepMerge(base, overlay, createContext());
+    assert.deepEqual(result, { plugins: ["c", "b", "a"] });
+  });
+
+  test("compares objects by value for unique", () => {
+    const base = { rules: [{ name: "a", level: 1 }, { name: "b" }] };
+    const overlay = { rules: [{ level: 1, name: "a" }, { name: "c" }] };
+    const result = deepMerge(base, overlay, createContext("unique"));
+    assert.deepEqual(result, {
+      rules: [{ name: "a", level: 1 }, { name: "b" }, { name: "c" }],
+    });
+  });
+
+  test("drops duplicates within the base too for unique", () => {
+    const result = deepMerge(
+      { items: [1, 1, 2] },
+      { items: [2, 3] },
+      createContext("unique"),
+    );
+    assert.deepEqual(result, { items: [1, 2, 3] });
+  });
+
   test("uses context arrayStrategies for path-specific merge", () => {
     const base = { tags: ["a", "b"], ids: [1, 2] };
     const overlay = { tags: ["c"], ids: [3] };
@@ -201,7 +243,348 @@ describe("deepMerge", () => {
   });
 });
 
+describe("deepMerge mergeByKey", () => {
+  test("merges items with the same key and appends new ones", () => {
+    const base = {
+      packageRules: [
+        { name: "deps", automerge: false, labels: ["deps"] },
+        { name: "docker", enabled: true },
+      ],
+    };
+    const overlay = {
+      packageRules: {
+        $arrayMerge: "mergeByKey",
+        key: "name",
+        values: [
+          { name: "deps", automerge: true },
+          { name: "actions", groupName: "actions" },
+        ],
+      },
+    };
+    const result = deepMerge(base, overlay, createContext());
+    assert.deepEqual(result, {
+      packageRules: [
+        { name: "deps", automerge: true, labels: ["deps"] },
+        { name: "docker", enabled: true },
+        { name: "actions", groupName: "actions" },
+      ],
+    });
+  });
+
+  test("matches items by a nested key path", () => {
+    const base = { items: [{ meta: { id: 1 }, value: "a" }] };
+    const overlay = {
+      items: {
+        $arrayMerge: "mergeByKey",
+        key: "$.meta.id",
+        values: [
+          { meta: { id: 1 }, value: "b" },
+          { meta: { id: 2 }, value: "c" },
+        ],
+      },
+    };
+    const result = deepMerge(base, overlay, createContext());
+    assert.deepEqual(result, {
+      items: [
+        { meta: { id: 1 }, value: "b" },
+        { meta: { id: 2 }, value: "c" },
+      ],
+    });
+  });
+
+  test("compares object keys by value", () => {
+    const base = { overrides: [{ files: ["*.ts"], rules: { a: 1 } }] };
+    const overlay = {
+      overrides: {
+        $arrayMerge: "mergeByKey",
+        key: "files",
+        values: [{ files: ["*.ts"], rules: { b: 2 } }],
+      },
+    };
+    const result = deepMerge(base, overlay, createContext());
+    assert.deepEqual(result, {
+      overrides: [{ files: ["*.ts"], rules: { a: 1, b: 2 } }],
+    });
+  });
+
+  test("applies nested directives inside merged items", () => {
+    const base = { overrides: [{ name: "ts", plugins: ["a"] }] };
+    const overlay = {
+      overrides: {
+        $arrayMerge: "mergeByKey",
+        key: "name",
+        values: [
+          { name: "ts", plugins: { $arrayMerge: "append", values: ["b"] } },
+        ],
+      },
+    };
+    const result = deepMerge(base, overlay, createContext());
+    assert.deepEqual(result, {
+      overrides: [{ name: "ts", plugins: ["a", "b"] }],
+    });
+  });
+
+  test("appends items without the key and non-object items", () => {
+    const base = { items: [{ name: "a" }, "x"] };
+    const overlay = {
+      items: {
+        $arrayMerge: "mergeByKey",
+        key: "name",
+        values: [{ other: 1 }, "x"],
+      },
+    };
+    const result = deepMerge(base, overlay, createContext());
+    assert.deepEqual(result, {
+      items: [{ name: "a" }, "x", { other: 1 }, "x"],
+    });
+  });
+
+  test("uses the overlay list when the base has no list at that key", () => {
+    const overlay = {
+      rules: {
+        $arrayMerge: "mergeByKey",
+        key: "name",
+        values: [{ name: "a", level: "error" }],
+      },
+    };
+    assert.deepEqual(
+      deepMerge({ extends: ["base"] }, overlay, createContext()),
+      {
+        extends: ["base"],
+        rules: [{ name: "a", level: "error" }],
+      },
+    );
+  });
+
+  test("throws when the key is missing", () => {
+    const overlay = {
+      rules: { nested: { $arrayMerge: "mergeByKey", values: [] } },
+    };
+    assert.throws(
+      () => deepMerge({ rules: { nested: [] } }, overlay, createContext()),
+      /\$arrayMerge: mergeByKey at 'rules\.nested' requires a key/,
+    );
+  });
+});
+
+describe("deepMerge $delete and $unset", () => {
+  test("removes a key with $delete: true", () => {
+    const base = { rules: { semi: "error", quotes: "warn" } };
+    const overlay = { rules: { semi: { $delete: true } } };
+    const result = deepMerge(base, overlay, createContext());
+    assert.deepEqual(result, { rules: { quotes: "warn" } });
+    assert.ok(!("semi" in (result.rules as object)));
+  });
+
+  test("removes keys listed in $unset", () => {
+    const base = { a: 1, b: { nested: true }, c: 3 };
+    const overlay = { $unset: ["a", "b"], d: 4 };
+    const result = deepMerge(base, overlay, createContext());
+    assert.deepEqual(result, { c: 3, d: 4 });
+  });
+
+  test("sets $unset keys again without merging the base value", () => {
+    const base = { settings: { a: 1, b: 2 } };
+    const overlay = { $unset: ["settings"], settings: { c: 3 } };
+    const result = deepMerge(base, overlay, createContext());
+    assert.deepEqual(result, { settings: { c: 3 } });
+  });
+
+  test("removes array elements by value", () => {
+    const base = {
+      plugins: ["a", "b", "c", "b"],
+      overrides: [{ files: ["*.js"] }, { files: ["*.ts"] }],
+    };
+    const overlay = {
+      plugins: { $delete: ["b"] },
+      overrides: { $delete: [{ files: ["*.js"] }] },
+    };
+    const result = deepMerge(base, overlay, createContext());
+    assert.deepEqual(result, {
+      plugins: ["a", "c"],
+      overrides: [{ files: ["*.ts"] }],
+    });
+  });
+
+  test("removes array elements before merging values", () => {
+    const base = { extends: ["a", "b"], plugins: ["x", "y"] };
+    const overlay = {
+      extends: { $delete: ["b"], $arrayMerge: "append", values: ["c"] },
+      plugins: { $delete: ["x"], values: ["z"] },
+    };
+    const result = deepMerge(base, overlay, createContext("append"));
+    assert.deepEqual(result, { extends: ["a", "c"], plugins: ["y", "z"] });
+  });
+
+  test("ignores $delete for keys the base does not have", () => {
+    const overlay = { gone: { $delete: true }, items: { $delete: ["x"] } };
+    const result = deepMerge({ kept: 1 }, overlay, createContext());
+    assert.deepEqual(result, { kept: 1 });
+  });
+
+  test("throws for invalid $delete and $unset values", () => {
+    assert.throws(
+      () =>
+        deepMerge(
+          { a: { b: 1 } },
+          { a: { b: { $delete: "yes" } } },
+          createContext(),
+        ),
+      /\$delete at 'a\.b' must be true or a list of values to remove/,
+    );
+    assert.throws(
+      () => deepMerge({}, { $unset: "a" }, createContext()),
+      /\$unset must be a list of key names/,
+    );
+  });
+});
+
+describe("deepMerge $override and $merge", () => {
+  const base = {
+    compilerOptions: {
+      strict: true,
+      paths: { "@app/*": ["src/*"], "@lib/*": ["lib/*"] },
+    },
+  };
+
+  test("replaces a subtree with $override: true", () => {
+    const overlay = {
+      compilerOptions: {
+        paths: { $override: true, "@web/*": ["web/*"] },
+      },
+    };
+    const result = deepMerge(base, overlay, createContext());
+    assert.deepEqual(result, {
+      compilerOptions: { strict: true, paths: { "@web/*": ["web/*"] } },
+    });
+  });
+
+  test("replaces a subtree with $merge: false", () => {
+    const overlay = {
+      compilerOptions: { paths: { $merge: false, "@web/*": ["web/*"] } },
+    };
+    const result = deepMerge(base, overlay, createContext());
+    assert.deepEqual(result, {
+      compilerOptions: { strict: true, paths: { "@web/*": ["web/*"] } },
+    });
+  });
+
+  test("merges as usual with $override: false or $merge: true", () => {
+    const overlay = {
+      compilerOptions: {
+        $merge: true,
+        paths: { $override: false, "@web/*": ["web/*"] },
+      },
+    };
+    const result = deepMerge(base, overlay, createContext());
+    assert.deepEqual(result, {
+      compilerOptions: {
+        strict: true,
+        paths: {
+          "@app/*": ["src/*"],
+          "@lib/*": ["lib/*"],
+          "@web/*": ["web/*"],
+        },
+      },
+    });
+  });
+
+  test("strips directives from the replacing subtree", () => {
+    const overlay = {
+      compilerOptions: {
+        $override: true,
+        outDir: "dist",
+        nested: { $arrayMerge: "append", items: [1] },
+      },
+    };
+    const result = deepMerge(base, overlay, createContext());
+    assert.deepEqual(result, {
+      compilerOptions: { outDir: "dist", nested: { items: [1] } },
+    });
+  });
+
+  test("throws for non-boolean values", () => {
+    assert.throws(
+      () =>
+        deepMerge(
+          base,
+          { compilerOptions: { $override: "yes" } },
+          createContext(),
+        ),
+      /\$override at 'compilerOptions' must be true or false/,
+    );
+  });
+});
+
+describe("createMergeContext arrayStrategies", () => {
+  test("applies strategies seeded for exact paths", () => {
+    const base = { compilerOptions: { lib: ["es2022"], types: ["node"] } };
+    const overlay = { compilerOptions: { lib: ["dom"], types: ["jest"] } };
+    const ctx = createMergeContext("replace", {
+      "compilerOptions.lib": "append",
+    });
+    assert.deepEqual(deepMerge(base, overlay, ctx), {
+      compilerOptions: { lib: ["es2022", "dom"], types: ["jest"] },
+    });
+  });
+
+  test("matches * segments against keys and list positions", () => {
+    const base = {
+      packages: { web: { deps: ["a"] }, api: { deps: ["b"] } },
+      overrides: [{ name: "ts", files: ["*.ts"] }],
+    };
+    const overlay = {
+      packages: { web: { deps: ["c"] }, api: { deps: ["b"] } },
+      overrides: {
+        $arrayMerge: "mergeByKey",
+        key: "name",
+        values: [{ name: "ts", files: ["*.ts", "*.tsx"] }],
+      },
+    };
+    const ctx = createMergeContext("replace", {
+      "packages.*.deps": "unique",
+      "overrides.*.files": "unique",
+    });
+    assert.deepEqual(deepMerge(base, overlay, ctx), {
+      packages: { web: { deps: ["a", "c"] }, api: { deps: ["b"] } },
+      overrides: [{ name: "ts", files: ["*.ts", "*.tsx"] }],
+    });
+  });
+
+  test("prefers exact paths over patterns", () => {
+    const ctx = createMergeContext("replace", {
+      "*.items": "append",
+      "b.items": "prepend",
+    });
+    const result = deepMerge(
+      { a: { items: [1] }, b: { items: [1] } },
+      { a: { items: [2] }, b: { items: [2] } },
+      ctx,
+    );
+    assert.deepEqual(result, { a: { items: [1, 2] }, b: { items: [2, 1] } });
+  });
+
+  test("lets inline $arrayMerge directives win", () => {
+    const ctx = createMergeContext("replace", { extends: "append" });
+    const result = deepMerge(
+      { extends: ["a"] },
+      { extends: { $arrayMerge: "replace", values: ["b"] } },
+      ctx,
+    );
+    assert.deepEqual(result, { extends: ["b"] });
+  });
+});
+
 describe("stripMergeDirectives", () => {
+  test("removes keys marked with $delete", () => {
+    const input = {
+      kept: 1,
+      gone: { $delete: true },
+      nested: { items: { $delete: ["x"] }, $unset: ["y"] },
+    };
+    assert.deepEqual(stripMergeDirectives(input), { kept: 1, nested: {} });
+  });
+
   test("removes $arrayMerge keys", () => {
     const obj = { $arrayMerge: "append", key: "value" };
     const result = stripMergeDirectives(obj);
@@ -250,6 +633,12 @@ describe("stripMergeDirectives", () => {
     assert.deepEqual(result, { key: "value" });
   });
 
+  test("keeps interpolated and escaped placeholder keys", () => {
+    const obj = { "${ENV}": { $arrayMerge: "append" }, "$${VAR}": 1 };
+    const result = stripMergeDirectives(obj);
+    assert.deepEqual(result, { "${ENV}": {}, "$${VAR}": 1 });
+  });
+
   test("handles empty objects", () => {
     const result = stripMergeDirectives({});
     assert.deepEqual(result, {});
@@ -1,9 +1,13 @@
+import { isDeepStrictEqual } from "node:util";
+
 /**
  * Deep merge utilities for JSON configuration objects.
- * Supports configurable array merge strategies via $arrayMerge directive.
+ * Supports configurable array merge strategies via $arrayMerge directive,
+ * including merging arrays of objects by key (mergeByKey).
  */
 
-export type ArrayMergeStrategy = "replace" | "append" | "prepend";
+export type ArrayMergeStrategy =
+  "replace" | "append" | "prepend" | "unique" | "union-prepend";
 
 /**
  * Handler function type for array merge strategies.
@@ -13,6 +17,16 @@ export type ArrayMergeHandler = (
   overlay: unknown[],
 ) => unknown[];
 
+/**
+ * Drops items that deep-equal an earlier item, keeping first occurrences.
+ */
+function dedupe(items: unknown[]): unknown[] {
+  return items.filter(
+    (item, index) =>
+      items.findIndex((other) => isDeepStrictEqual(other, item)) === index,
+  );
+}
+
 /**
  * Strategy map for array merge operations.
  * Extensible: add new strategies by adding to this map.
@@ -22,6 +36,8 @@ export const arrayMergeStrategies: Map<ArrayMergeStrategy, ArrayMergeHandler> =
     ["replace", (_base, overlay) => overlay],
     ["append", (base, overlay) => [...base, ...overlay]],
     ["prepend", (base, overlay) => [...overlay, ...base]],
+    ["unique", (base, overlay) => dedupe([...base, ...overlay])],
+    ["union-prepend", (base, overlay) => dedupe([...overlay, ...base])],
   ]);
 
 export interface MergeContext {
@@ -32,7 +48,7 @@ export interface MergeContext {
 /**
  * Check if a value is a plain object (not null, not array).
  */
-function isPlainObject(val: unknown): val is Record<string, unknown> {
+export function isPlainObject(val: unknown): val is Record<string, unknown> {
   return typeof val === "object" && val !== null && !Array.isArray(val);
 }
 
@@ -73,17 +89,155 @@ function extractArrayFromOverlay(overlay: unknown): unknown[] | null {
   return null;
 }
 
+/**
+ * Parses the key of a mergeByKey directive: a property name or a dotted
+ * path into each item, optionally starting with "$." (e.g. "meta.id").
+ */
+function parseItemKey(key: unknown, path: string): string[] {
+  const segments =
+    typeof key === "string" ? key.replace(/^\$\./, "").split(".") : [];
+  if (segments.length === 0 || segments.some((s) => s === "")) {
+    throw new Error(
+      `$arrayMerge: mergeByKey at '${path}' requires a key, e.g. key: name or key: meta.id`,
+    );
+  }
+  return segments;
+}
+
+/**
+ * Looks up the key of an array item. Returns undefined if it has none.
+ */
+function getItemKey(item: unknown, keyPath: string[]): unknown {
+  let value = item;
+  for (const segment of keyPath) {
+    if (!isPlainObject(value)) return undefined;
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * Merges arrays of objects by key: overlay items are deep merged into the
+ * item with the same key and other items are appended.
+ */
+function mergeArraysByKey(
+  base: unknown[],
+  overlay: unknown[],
+  keyPath: string[],
+  ctx: MergeContext,
+  path: string,
+): unknown[] {
+  const result = [...base];
+
+  for (const item of overlay) {
+    const key = getItemKey(item, keyPath);
+    const index =
+      key === undefined
+        ? -1
+        : result.findIndex(
+            (existing) =>
+              isPlainObject(existing) &&
+              isDeepStrictEqual(getItemKey(existing, keyPath), key),
+          );
+
+    if (index === -1 || !isPlainObject(item)) {
+      result.push(item);
+    } else {
+      result[index] = deepMerge(
+        result[index] as Record<string, unknown>,
+        item,
+        ctx,
+        `${path}.${index}`,
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Returns the keys listed in an object's $unset directive.
+ */
+function getUnsetKeys(
+  overlay: Record<string, unknown>,
+  path: string,
+): string[] {
+  const keys = overlay.$unset;
+  if (keys === undefined) return [];
+
+  if (!Array.isArray(keys) || !keys.every((k) => typeof k === "string")) {
+    const where = path ? ` at '${path}'` : "";
+    throw new Error(`$unset${where} must be a list of key names`);
+  }
+  return keys;
+}
+
+/**
+ * Check if an overlay object replaces its base instead of being merged
+ * ($override: true or $merge: false).
+ */
+function isReplaceOverlay(
+  overlay: Record<string, unknown>,
+  path: string,
+): boolean {
+  for (const directive of ["$override", "$merge"]) {
+    const value = overlay[directive];
+    if (value !== undefined && typeof value !== "boolean") {
+      const where = path ? ` at '${path}'` : "";
+      throw new Error(`${directive}${where} must be true or false`);
+    }
+  }
+  return overlay.$override === true || overlay.$merge === false;
+}
+
+/**
+ * Check if a value is a { $delete: ... } directive without values to merge.
+ * Left over when there is nothing to delete from, so it is dropped.
+ */
+function isDeleteOnly(value: unknown): boolean {
+  return isPlainObject(value) && "$delete" in value && !("values" in value);
+}
+
+/**
+ * Check if a key is a merge directive ($arrayMerge, $override, ...).
+ * $-prefixed keys are reserved for directives, except interpolated keys
+ * like "${VAR}" or escaped "$${VAR}".
+ */
+export function isDirectiveKey(key: string): boolean {
+  return /^\$[^${]/.test(key);
+}
+
+/**
+ * Looks up the strategy configured for an array path. Exact paths win over
+ * patterns with "*" segments, which match any single key or item index.
+ */
+function getPathStrategy(
+  ctx: MergeContext,
+  path: string,
+): ArrayMergeStrategy | undefined {
+  const exact = ctx.arrayStrategies.get(path);
+  if (exact) return exact;
+
+  const segments = path.split(".");
+  for (const [pattern, strategy] of ctx.arrayStrategies) {
+    const patternSegments = pattern.split(".");
+    if (
+      patternSegments.length === segments.length &&
+      patternSegments.every((s, i) => s === "*" || s === segments[i])
+    ) {
+      return strategy;
+    }
+  }
+  return undefined;
+}
+
 /**
  * Get merge strategy from an overlay object's $arrayMerge directive.
  */
 function getStrategyFromOverlay(overlay: unknown): ArrayMergeStrategy | null {
   if (isPlainObject(overlay) && "$arrayMerge" in overlay) {
-    const strategy = overlay.$arrayMerge;
-    if (
-      strategy === "replace" ||
-      strategy === "append" ||
-      strategy === "prepend"
-    ) {
+    const strategy = overlay.$arrayMerge as ArrayMergeStrategy;
+    if (arrayMergeStrategies.has(strategy)) {
       return strategy;
     }
   }
@@ -104,23 +258,71 @@ export function deepMerge(
   ctx: MergeContext,
   path: string = "",
 ): Record<string, unknown> {
+  // $override: true / $merge: false replaces the whole base object
+  if (isReplaceOverlay(overlay, path)) {
+    return stripMergeDirectives(overlay);
+  }
+
   const result: Record<string, unknown> = { ...base };
 
+  // $unset: [a, b] removes inherited keys before the overlay is applied
+  for (const key of getUnsetKeys(overlay, path)) {
+    delete result[key];
+  }
+
   // Check for $arrayMerge directive at this level (applies to child arrays)
   const levelStrategy = getStrategyFromOverlay(overlay);
 
-  for (const [key, overlayValue] of Object.entries(overlay)) {
+  for (const [key, value] of Object.entries(overlay)) {
     // Skip directive keys in output
-    if (key.startsWith("$")) continue;
+    if (isDirectiveKey(key)) continue;
 
     const currentPath = path ? `${path}.${key}` : key;
-    const baseValue = base[key];
+    // Read from result so $unset keys start over
+    let baseValue = result[key];
+    let overlayValue = value;
+
+    // key: { $delete: true } removes the key; { $delete: [values] } removes
+    // those values from the base array, then merges any `values`
+    if (isPlainObject(overlayValue) && "$delete" in overlayValue) {
+      const remove = overlayValue.$delete;
+      if (remove === true) {
+        delete result[key];
+        continue;
+      }
+      if (!Array.isArray(remove)) {
+        throw new Error(
+          `$delete at '${currentPath}' must be true or a list of values to remove`,
+        );
+      }
+
+      if (Array.isArray(baseValue)) {
+        baseValue = baseValue.filter(
+          (item) => !remove.some((value) => isDeepStrictEqual(value, item)),
+        );
+        result[key] = baseValue;
+      }
+      if (!("values" in overlayValue)) continue;
+      if (!("$arrayMerge" in overlayValue)) {
+        overlayValue = extractArrayFromOverlay(overlayValue) ?? overlayValue;
+      }
+    }
 
     // If overlay is an object with $arrayMerge directive for an array field
     if (isPlainObject(overlayValue) && "$arrayMerge" in overlayValue) {
-      const strategy = getStrategyFromOverlay(overlayValue);
       const overlayArray = extractArrayFromOverlay(overlayValue);
 
+      if (overlayValue.$arrayMerge === "mergeByKey" && overlayArray) {
+        const keyPath = parseItemKey(overlayValue.key, currentPath);
+        // With no base list to merge into, the overlay list is used as-is
+        result[key] = Array.isArray(baseValue)
+          ? mergeArraysByKey(baseValue, overlayArray, keyPath, ctx, currentPath)
+          : overlayArray;
+        continue;
+      }
+
+      const strategy = getStrategyFromOverlay(overlayValue);
+
       if (strategy && overlayArray && Array.isArray(baseValue)) {
         result[key] = mergeArrays(baseValue, overlayArray, strategy);
         continue;
@@ -132,7 +334,7 @@ export function deepMerge(
       // Check for level-specific strategy, then path-specific, then default
       const strategy =
         levelStrategy ??
-        ctx.arrayStrategies.get(currentPath) ??
+        getPathStrategy(ctx, currentPath) ??
         ctx.defaultArrayStrategy;
       result[key] = mergeArrays(baseValue, overlayValue, strategy);
       continue;
@@ -146,7 +348,7 @@ export function deepMerge(
         if (childStrategy) {
           // Apply to all immediate child arrays
           for (const childKey of Object.keys(overlayValue)) {
-            if (!childKey.startsWith("$")) {
+            if (!isDirectiveKey(childKey)) {
               const childPath = currentPath
                 ? `${currentPath}.${childKey}`
                 : childKey;
@@ -176,8 +378,8 @@ export function stripMergeDirectives(
   const result: Record<string, unknown> = {};
 
   for (const [key, value] of Object.entries(obj)) {
-    // Skip all $-prefixed keys (reserved for directives)
-    if (key.startsWith("$")) continue;
+    // Skip all directive keys, and keys that were marked for deletion
+    if (isDirectiveKey(key) || isDeleteOnly(value)) continue;
 
     if (isPlainObject(value)) {
       result[key] = stripMergeDirectives(value);
@@ -194,13 +396,15 @@ export function stripMergeDirectives(
 }
 
 /**
- * Create a default merge context.
+ * Create a merge context, optionally seeded with per-path strategies
+ * (dotted paths, "*" matching any segment).
  */
 export function createMergeContext(
   defaultStrategy: ArrayMergeStrategy = "replace",
+  arrayStrategies: Record<string, ArrayMergeStrategy> = {},
 ): MergeContext {
   return {
-    arrayStrategies: new Map(),
+    arrayStrategies: new Map(Object.entries(arrayStrategies)),
     defaultArrayStrategy: defaultStrategy,
   };
 }
@@ -122,6 +122,33 @@ describe("formatPRBody", () => {
   });
 });
 
+describe("formatPRBody with managed path changes", () => {
+  test("lists each changed path under its file", () => {
+    const files: FileAction[] = [
+      {
+        fileName: "tsconfig.json",
+        action: "update",
+        pathChanges: [
+          { path: "compilerOptions.strict", from: false, to: true },
+          { path: "engines.node", to: ">=20" },
+          { path: "files", from: ["index.ts"] },
+        ],
+      },
+    ];
+    const result = formatPRBody(files);
+    assert.ok(
+      result.includes(
+        [
+          "- Updated `tsconfig.json`",
+          "  - `compilerOptions.strict` changed from `false` to `true`",
+          '  - `engines.node` set to `">=20"`',
+          '  - `files` removed (was `["index.ts"]`)',
+        ].join("\n"),
+      ),
+    );
+  });
+});
+
 describe("formatPRTitle", () => {
   test("single file: includes file name", () => {
     const files: FileAction[] = [{ fileName: "config.json", action: "create" }];
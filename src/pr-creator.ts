@@ -7,9 +7,21 @@ import { getPRStrategy } from "./strategies/index.js";
 // Re-export for backwards compatibility and testing
 export { escapeShellArg } from "./shell-utils.js";
 
+/**
+ * A managed path whose value changed. An undefined value means the path
+ * was (or is now) unset.
+ */
+export interface PathChange {
+  path: string;
+  from?: unknown;
+  to?: unknown;
+}
+
 export interface FileAction {
   fileName: string;
   action: "create" | "update" | "skip";
+  /** Managed paths changed in the file (managedPaths only) */
+  pathChanges?: PathChange[];
 }
 
 export interface PROptions {
@@ -54,14 +66,33 @@ _This PR was automatically generated by [json-config-sync](https://github.com/an
 }
 
 /**
- * Format file changes list, excluding skipped files
+ * Format a managed path change as "changed from X to Y", "set to Y" or
+ * "removed (was X)"
+ */
+function formatPathChange({ path, from, to }: PathChange): string {
+  if (from === undefined) {
+    return `\`${path}\` set to \`${JSON.stringify(to)}\``;
+  }
+  if (to === undefined) {
+    return `\`${path}\` removed (was \`${JSON.stringify(from)}\`)`;
+  }
+  return `\`${path}\` changed from \`${JSON.stringify(from)}\` to \`${JSON.stringify(to)}\``;
+}
+
+/**
+ * Format file changes list, excluding skipped files. Managed path changes
+ * are nested under their file.
  */
 function formatFileChanges(files: FileAction[]): string {
   const changedFiles = files.filter((f) => f.action !== "skip");
   return changedFiles
     .map((f) => {
       const actionText = f.action === "create" ? "Created" : "Updated";
-      return `- ${actionText} \`${f.fileName}\``;
+      const lines = [`- ${actionText} \`${f.fileName}\``];
+      for (const change of f.pathChanges ?? []) {
+        lines.push(`  - ${formatPathChange(change)}`);
+      }
+      return lines.join("\n");
     })
     .join("\n");
 }
@@ -78,9 +109,10 @@ export function formatPRBody(files: FileAction[]): string {
     return template.replace(/\{\{FILE_CHANGES\}\}/g, fileChanges);
   }
 
-  // Legacy single-file template - adapt it for multiple files
+  // Legacy single-file template - adapt it for multiple files. It has no
+  // place for managed path changes, so those use the generated body
   const changedFiles = files.filter((f) => f.action !== "skip");
-  if (changedFiles.length === 1) {
+  if (changedFiles.length === 1 && !changedFiles[0].pathChanges?.length) {
     const actionText =
       changedFiles[0].action === "create" ? "Created" : "Updated";
     return template
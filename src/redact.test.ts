@@ -0,0 +1,33 @@
+import { test, describe, afterEach } from "node:test";
+import { strict as assert } from "node:assert";
+import { registerSecret, redactSecrets, clearSecrets } from "./redact.js";
+
+describe("redactSecrets", () => {
+  afterEach(() => {
+    clearSecrets();
+  });
+
+  test("returns text unchanged without secrets", () => {
+    assert.equal(redactSecrets("nothing to hide"), "nothing to hide");
+  });
+
+  test("replaces every occurrence of registered secrets", () => {
+    registerSecret("s3cr3t");
+    registerSecret("tok");
+    assert.equal(
+      redactSecrets("s3cr3t, tok and s3cr3t again"),
+      "***, *** and *** again",
+    );
+  });
+
+  test("replaces longer secrets first", () => {
+    registerSecret("abc");
+    registerSecret("abcdef");
+    assert.equal(redactSecrets("value=abcdef"), "value=***");
+  });
+
+  test("ignores empty values", () => {
+    registerSecret("");
+    assert.equal(redactSecrets("text"), "text");
+  });
+});
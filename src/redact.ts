@@ -0,0 +1,38 @@
+/**
+ * Registry of secret values that must never appear in output.
+ * Values resolved from secret sources are registered when the config is
+ * loaded; the logger replaces them before printing.
+ */
+
+const REDACTED = "***";
+
+const secrets = new Set<string>();
+
+/**
+ * Registers a value to redact from output. Empty values are ignored.
+ */
+export function registerSecret(value: string): void {
+  if (value.length > 0) {
+    secrets.add(value);
+  }
+}
+
+/**
+ * Replaces every registered secret in text with "***".
+ * Longer secrets are replaced first so overlapping values are fully hidden.
+ */
+export function redactSecrets(text: string): string {
+  let result = text;
+  const ordered = [...secrets].sort((a, b) => b.length - a.length);
+  for (const secret of ordered) {
+    result = result.split(secret).join(REDACTED);
+  }
+  return result;
+}
+
+/**
+ * Forgets all registered secrets (for testing).
+ */
+export function clearSecrets(): void {
+  secrets.clear();
+}
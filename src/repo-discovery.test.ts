@@ -0,0 +1,323 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { discoverRepos, hasRepoDiscovery } from "./repo-discovery.js";
+import { CommandExecutor } from "./command-executor.js";
+import type { RawConfig } from "./config.js";
+
+// Mock executor returning a canned response for the first matching command
+function createMockExecutor(responses: Record<string, string | Error>) {
+  const calls: string[] = [];
+  const executor: CommandExecutor = {
+    async exec(command: string): Promise<string> {
+      calls.push(command);
+      for (const [pattern, response] of Object.entries(responses)) {
+        if (command.includes(pattern)) {
+          if (response instanceof Error) {
+            throw response;
+          }
+          return response;
+        }
+      }
+      return "";
+    },
+  };
+  return { executor, calls };
+}
+
+const files = { "config.json": { content: { key: "value" } } };
+
+describe("hasRepoDiscovery", () => {
+  test("returns false when all repos use git", () => {
+    const raw: RawConfig = {
+      files,
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+    assert.equal(hasRepoDiscovery(raw), false);
+  });
+
+  test("returns true when a repo uses discover", () => {
+    const raw: RawConfig = {
+      files,
+      repos: [{ discover: { github: { org: "my-org" } } }],
+    };
+    assert.equal(hasRepoDiscovery(raw), true);
+  });
+});
+
+describe("discoverRepos", () => {
+  test("returns config unchanged without discover entries", async () => {
+    const { executor, calls } = createMockExecutor({});
+    const raw: RawConfig = {
+      files,
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    const result = await discoverRepos(raw, { executor });
+    assert.equal(result, raw);
+    assert.equal(calls.length, 0);
+  });
+
+  test("expands GitHub org discovery into git URLs", async () => {
+    const { executor, calls } = createMockExecutor({
+      "gh repo list": JSON.stringify([
+        { sshUrl: "git@github.com:my-org/a.git" },
+        { sshUrl: "git@github.com:my-org/b.git" },
+      ]),
+    });
+    const raw: RawConfig = {
+      files,
+      repos: [
+        {
+          discover: { github: { org: "my-org" } },
+          tags: ["all"],
+        },
+      ],
+    };
+
+    const result = await discoverRepos(raw, { executor, retries: 0 });
+    assert.deepEqual(result.repos, [
+      {
+        git: ["git@github.com:my-org/a.git", "git@github.com:my-org/b.git"],
+        tags: ["all"],
+      },
+    ]);
+    assert.equal(calls.length, 1);
+    assert.ok(calls[0].startsWith("gh repo list 'my-org'"));
+    assert.ok(calls[0].includes("--json sshUrl"));
+    assert.ok(!calls[0].includes("--topic"));
+    assert.ok(!calls[0].includes("--no-archived"));
+  });
+
+  test("passes topic and archived filters to gh", async () => {
+    const { executor, calls } = createMockExecutor({ "gh repo list": "[]" });
+    const raw: RawConfig = {
+      files,
+      repos: [
+        {
+          discover: {
+            github: { org: "my-org", topic: "node", excludeArchived: true },
+          },
+        },
+      ],
+    };
+
+    await discoverRepos(raw, { executor, retries: 0 });
+    assert.ok(calls[0].includes("--topic 'node'"));
+    assert.ok(calls[0].includes("--no-archived"));
+  });
+
+  test("keeps a repo found by several discover entries only in the first", async () => {
+    const { executor } = createMockExecutor({
+      "--topic 'node'": JSON.stringify([
+        { sshUrl: "git@github.com:my-org/a.git" },
+        { sshUrl: "git@github.com:my-org/shared.git" },
+      ]),
+      "--topic 'web'": JSON.stringify([
+        { sshUrl: "git@github.com:my-org/shared.git" },
+        { sshUrl: "git@github.com:my-org/b.git" },
+      ]),
+    });
+    const raw: RawConfig = {
+      files,
+      repos: [
+        { discover: { github: { org: "my-org", topic: "node" } } },
+        { discover: { github: { org: "my-org", topic: "web" } } },
+      ],
+    };
+
+    const result = await discoverRepos(raw, { executor, retries: 0 });
+    assert.deepEqual(result.repos[0].git, [
+      "git@github.com:my-org/a.git",
+      "git@github.com:my-org/shared.git",
+    ]);
+    assert.deepEqual(result.repos[1].git, ["git@github.com:my-org/b.git"]);
+  });
+
+  test("warns when GitHub discovery reaches the repo limit", async () => {
+    const sshUrls = Array.from({ length: 1000 }, (_, i) => ({
+      sshUrl: `git@github.com:big-org/repo-${i}.git`,
+    }));
+    const { executor } = createMockExecutor({
+      "gh repo list": JSON.stringify(sshUrls),
+    });
+    const messages: string[] = [];
+    const log = { info: (message: string) => messages.push(message) };
+    const raw: RawConfig = {
+      files,
+      repos: [{ discover: { github: { org: "big-org" } } }],
+    };
+
+    await discoverRepos(raw, { executor, retries: 0, log });
+    assert.equal(messages.length, 1);
+    assert.ok(messages[0].includes("big-org"));
+    assert.ok(messages[0].includes("1000"));
+  });
+
+  test("does not warn below the GitHub repo limit", async () => {
+    const { executor } = createMockExecutor({
+      "gh repo list": JSON.stringify([
+        { sshUrl: "git@github.com:my-org/a.git" },
+      ]),
+    });
+    const messages: string[] = [];
+    const log = { info: (message: string) => messages.push(message) };
+    const raw: RawConfig = {
+      files,
+      repos: [{ discover: { github: { org: "my-org" } } }],
+    };
+
+    await discoverRepos(raw, { executor, retries: 0, log });
+    assert.deepEqual(messages, []);
+  });
+
+  test("expands Azure DevOps project discovery and skips disabled repos", async () => {
+    const { executor, calls } = createMockExecutor({
+      "az repos list": JSON.stringify([
+        { sshUrl: "git@ssh.dev.azure.com:v3/my-org/proj/a", isDisabled: false },
+        { sshUrl: "git@ssh.dev.azure.com:v3/my-org/proj/b", isDisabled: true },
+      ]),
+    });
+    const raw: RawConfig = {
+      files,
+      repos: [
+        { discover: { azure: { organization: "my-org", project: "proj" } } },
+      ],
+    };
+
+    const result = await discoverRepos(raw, { executor, retries: 0 });
+    assert.deepEqual(result.repos[0].git, [
+      "git@ssh.dev.azure.com:v3/my-org/proj/a",
+    ]);
+    assert.ok(
+      calls[0].includes("--organization 'https://dev.azure.com/my-org'"),
+    );
+    assert.ok(calls[0].includes("--project 'proj'"));
+  });
+
+  test("leaves explicitly listed repos to their own entry", async () => {
+    const { executor } = createMockExecutor({
+      "gh repo list": JSON.stringify([
+        { sshUrl: "git@github.com:my-org/a.git" },
+        { sshUrl: "git@github.com:my-org/legacy.git" },
+      ]),
+    });
+    const raw: RawConfig = {
+      files,
+      repos: [
+        { discover: { github: { org: "my-org" } } },
+        {
+          git: "https://github.com/my-org/legacy.git",
+          files: { "config.json": { content: { legacy: true } } },
+        },
+      ],
+    };
+
+    const result = await discoverRepos(raw, { executor, retries: 0 });
+    assert.deepEqual(result.repos[0].git, ["git@github.com:my-org/a.git"]);
+    assert.equal(result.repos[1].git, "https://github.com/my-org/legacy.git");
+  });
+
+  test("matches explicit git URLs after interpolating vars and env vars", async () => {
+    const { executor } = createMockExecutor({
+      "gh repo list": JSON.stringify([
+        { sshUrl: "git@github.com:acme/a.git" },
+        { sshUrl: "git@github.com:acme/web.git" },
+        { sshUrl: "git@github.com:acme/api.git" },
+      ]),
+    });
+    const raw: RawConfig = {
+      files,
+      vars: { team: "api" },
+      repos: [
+        { discover: { github: { org: "acme" } } },
+        { git: "git@github.com:${ORG}/web.git" },
+        { git: "git@github.com:${ORG}/${team}.git" },
+      ],
+    };
+
+    const result = await discoverRepos(raw, {
+      executor,
+      retries: 0,
+      env: { ORG: "acme" },
+    });
+    assert.deepEqual(result.repos[0].git, ["git@github.com:acme/a.git"]);
+    assert.equal(result.repos[1].git, "git@github.com:${ORG}/web.git");
+    assert.equal(result.repos[2].git, "git@github.com:${ORG}/${team}.git");
+  });
+
+  test("layers explicit entries over the discover entry's settings", async () => {
+    const { executor } = createMockExecutor({
+      "gh repo list": JSON.stringify([
+        { sshUrl: "git@github.com:my-org/a.git" },
+        { sshUrl: "git@github.com:my-org/legacy.git" },
+      ]),
+    });
+    const raw: RawConfig = {
+      files,
+      repos: [
+        {
+          discover: { github: { org: "my-org" } },
+          tags: ["baseline"],
+          profiles: ["node"],
+          vars: { team: "platform", tier: "2" },
+          files: {
+            "config.json": { createOnly: true, content: { base: true } },
+            "other.json": false,
+          },
+        },
+        {
+          git: [
+            "git@github.com:other-org/b.git",
+            "https://github.com/my-org/legacy.git",
+          ],
+          tags: ["legacy"],
+          profiles: ["strict"],
+          vars: { tier: "1" },
+          files: { "config.json": { content: { legacy: true } } },
+        },
+      ],
+    };
+
+    const result = await discoverRepos(raw, { executor, retries: 0 });
+    assert.equal(result.repos.length, 3);
+    assert.deepEqual(result.repos[1].git, ["git@github.com:other-org/b.git"]);
+    assert.deepEqual(result.repos[2], {
+      git: "https://github.com/my-org/legacy.git",
+      tags: ["baseline", "legacy"],
+      profiles: ["node", "strict"],
+      vars: { team: "platform", tier: "1" },
+      files: {
+        "config.json": { createOnly: true, content: { legacy: true } },
+        "other.json": false,
+      },
+    });
+  });
+
+  test("does not mutate the input config", async () => {
+    const { executor } = createMockExecutor({
+      "gh repo list": JSON.stringify([{ sshUrl: "git@github.com:o/a.git" }]),
+    });
+    const raw: RawConfig = {
+      files,
+      repos: [{ discover: { github: { org: "o" } } }],
+    };
+
+    await discoverRepos(raw, { executor, retries: 0 });
+    assert.deepEqual(raw.repos[0], { discover: { github: { org: "o" } } });
+  });
+
+  test("throws with the organization when the CLI fails", async () => {
+    const { executor } = createMockExecutor({
+      "gh repo list": new Error("HTTP 404: Not Found"),
+    });
+    const raw: RawConfig = {
+      files,
+      repos: [{ discover: { github: { org: "missing-org" } } }],
+    };
+
+    await assert.rejects(
+      () => discoverRepos(raw, { executor, retries: 0 }),
+      /Failed to discover repos in GitHub organization 'missing-org': HTTP 404/,
+    );
+  });
+});
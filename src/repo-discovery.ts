@@ -0,0 +1,272 @@
+import type {
+  RawConfig,
+  RawRepoConfig,
+  RawGitHubDiscovery,
+  RawAzureDiscovery,
+} from "./config.js";
+import { CommandExecutor, defaultExecutor } from "./command-executor.js";
+import { escapeShellArg } from "./shell-utils.js";
+import { withRetry } from "./retry-utils.js";
+import { parseGitUrl, getRepoDisplayName } from "./repo-detector.js";
+import { logger, ILogger } from "./logger.js";
+import { interpolateEnvVarsInText } from "./env.js";
+import { stringifyVars } from "./config-normalizer.js";
+
+/**
+ * Maximum number of repos returned by a single GitHub discovery query.
+ */
+const GITHUB_DISCOVERY_LIMIT = 1000;
+
+export interface DiscoveryOptions {
+  /** Executor for gh/az commands (for testing) */
+  executor?: CommandExecutor;
+  /** Working directory for gh/az commands (default: process.cwd()) */
+  cwd?: string;
+  /** Number of retries for network operations (default: 3) */
+  retries?: number;
+  /** Logger for discovery warnings (for testing) */
+  log?: ILogger;
+  /** Environment variables for explicit git URLs (default: process.env) */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Checks if any repo entry uses discovery.
+ */
+export function hasRepoDiscovery(raw: RawConfig): boolean {
+  return (
+    Array.isArray(raw.repos) &&
+    raw.repos.some((repo) => repo?.discover !== undefined)
+  );
+}
+
+/**
+ * Lists SSH git URLs of a GitHub organization's repos via the gh CLI.
+ */
+async function discoverGitHubRepos(
+  discovery: RawGitHubDiscovery,
+  options: Required<DiscoveryOptions>,
+): Promise<string[]> {
+  let command = `gh repo list ${escapeShellArg(discovery.org)} --limit ${GITHUB_DISCOVERY_LIMIT} --json sshUrl`;
+  if (discovery.topic) {
+    command += ` --topic ${escapeShellArg(discovery.topic)}`;
+  }
+  if (discovery.excludeArchived) {
+    command += " --no-archived";
+  }
+
+  const output = await withRetry(
+    () => options.executor.exec(command, options.cwd),
+    { retries: options.retries },
+  );
+  const repos = JSON.parse(output || "[]") as { sshUrl: string }[];
+  if (repos.length >= GITHUB_DISCOVERY_LIMIT) {
+    options.log.info(
+      `Warning: GitHub organization '${discovery.org}' has at least ${GITHUB_DISCOVERY_LIMIT} repos, the discovery limit; repos beyond it are not synced. Narrow the entry with a topic or list the rest explicitly.`,
+    );
+  }
+  return repos.map((repo) => repo.sshUrl);
+}
+
+/**
+ * Lists SSH git URLs of an Azure DevOps project's enabled repos via the az CLI.
+ */
+async function discoverAzureRepos(
+  discovery: RawAzureDiscovery,
+  options: Required<DiscoveryOptions>,
+): Promise<string[]> {
+  const orgUrl = `https://dev.azure.com/${discovery.organization}`;
+  const command = `az repos list --organization ${escapeShellArg(orgUrl)} --project ${escapeShellArg(discovery.project)} --output json`;
+
+  const output = await withRetry(
+    () => options.executor.exec(command, options.cwd),
+    { retries: options.retries },
+  );
+  const repos = JSON.parse(output || "[]") as {
+    sshUrl: string;
+    isDisabled?: boolean;
+  }[];
+  return repos.filter((repo) => !repo.isDisabled).map((repo) => repo.sshUrl);
+}
+
+/**
+ * Returns a key identifying a repo independent of URL format (SSH vs HTTPS).
+ */
+function getRepoKey(gitUrl: string): string {
+  try {
+    return getRepoDisplayName(parseGitUrl(gitUrl)).toLowerCase();
+  } catch {
+    return gitUrl;
+  }
+}
+
+/**
+ * Combines two lists, keeping the first occurrence of each value.
+ */
+function unionOf(
+  first: string[] | undefined,
+  second: string[] | undefined,
+): string[] | undefined {
+  if (!first && !second) return undefined;
+  return [...new Set([...(first ?? []), ...(second ?? [])])];
+}
+
+/**
+ * Layers an explicit repo entry over the settings of the discover entry
+ * that found the same repo. Tags and profiles are combined (discovered
+ * profiles apply first), vars and files are merged with the explicit
+ * entry winning; for a file both override, the explicit entry's fields
+ * (e.g. content) replace the discovered ones.
+ */
+function mergeDiscoveredSettings(
+  discovered: RawRepoConfig,
+  explicit: RawRepoConfig,
+): RawRepoConfig {
+  const merged: RawRepoConfig = { git: explicit.git };
+
+  if (discovered.files || explicit.files) {
+    const files = { ...discovered.files };
+    for (const [fileName, override] of Object.entries(explicit.files ?? {})) {
+      const base = files[fileName];
+      files[fileName] =
+        override === false || !base ? override : { ...base, ...override };
+    }
+    merged.files = files;
+  }
+  if (discovered.vars || explicit.vars) {
+    merged.vars = { ...discovered.vars, ...explicit.vars };
+  }
+  const tags = unionOf(discovered.tags, explicit.tags);
+  if (tags) merged.tags = tags;
+  const profiles = unionOf(discovered.profiles, explicit.profiles);
+  if (profiles) merged.profiles = profiles;
+
+  return merged;
+}
+
+/**
+ * Splits an explicit entry so each of its repos that a discover entry also
+ * found gets its own entry, layered over that discover entry's settings.
+ */
+function applyDiscoveredSettings(
+  repo: RawRepoConfig,
+  keys: string[],
+  discoveredSettings: Map<string, RawRepoConfig>,
+): RawRepoConfig[] {
+  const urls = Array.isArray(repo.git) ? repo.git : [repo.git as string];
+  const own = urls.filter((_, i) => !discoveredSettings.has(keys[i]));
+  if (own.length === urls.length) {
+    return [repo];
+  }
+
+  const result: RawRepoConfig[] = own.length > 0 ? [{ ...repo, git: own }] : [];
+  urls.forEach((url, i) => {
+    const settings = discoveredSettings.get(keys[i]);
+    if (settings) {
+      result.push(mergeDiscoveredSettings(settings, { ...repo, git: url }));
+    }
+  });
+  return result;
+}
+
+/**
+ * Expands repo entries that use `discover` into git URLs by querying
+ * GitHub (gh) or Azure DevOps (az). A repo found by several discover
+ * entries is only kept by the first. Repos that are also listed explicitly
+ * elsewhere in the config are left out of the discovered list; their
+ * explicit entry is layered over the discover entry's files, vars, tags
+ * and profiles instead.
+ *
+ * @param raw - The validated raw config
+ * @param options - Executor and retry options
+ * @returns A config where discover entries are replaced by git URL lists
+ */
+export async function discoverRepos(
+  raw: RawConfig,
+  options: DiscoveryOptions = {},
+): Promise<RawConfig> {
+  if (!hasRepoDiscovery(raw)) {
+    return raw;
+  }
+
+  const resolved: Required<DiscoveryOptions> = {
+    executor: options.executor ?? defaultExecutor,
+    cwd: options.cwd ?? process.cwd(),
+    retries: options.retries ?? 3,
+    log: options.log ?? logger,
+    env: options.env ?? process.env,
+  };
+
+  // Explicit git URLs are compared after interpolating vars and env vars,
+  // as normalizeConfig will; unresolved placeholders are left for it to
+  // report
+  const explicitKeys = new Map<RawRepoConfig, string[]>();
+  const explicitRepos = new Set<string>();
+  for (const repo of raw.repos) {
+    if (repo.git === undefined) continue;
+    const urls = Array.isArray(repo.git) ? repo.git : [repo.git];
+    const vars = { ...stringifyVars(raw.vars), ...stringifyVars(repo.vars) };
+    const keys = urls.map((url) =>
+      getRepoKey(
+        interpolateEnvVarsInText(url, {
+          strict: false,
+          vars,
+          env: resolved.env,
+        }) as string,
+      ),
+    );
+    explicitKeys.set(repo, keys);
+    keys.forEach((key) => explicitRepos.add(key));
+  }
+
+  const repos: RawRepoConfig[] = [];
+  // Settings of the discover entry that first found each repo, by repo key
+  const discoveredSettings = new Map<string, RawRepoConfig>();
+  // Repos found by an earlier discover entry, which keeps them
+  const discoveredRepos = new Set<string>();
+  for (const repo of raw.repos) {
+    if (repo.discover === undefined) {
+      repos.push(repo);
+      continue;
+    }
+
+    const { discover, ...rest } = repo;
+    let discovered: string[];
+    try {
+      discovered = discover.github
+        ? await discoverGitHubRepos(discover.github, resolved)
+        : await discoverAzureRepos(discover.azure!, resolved);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const source = discover.github
+        ? `GitHub organization '${discover.github.org}'`
+        : `Azure DevOps project '${discover.azure!.organization}/${discover.azure!.project}'`;
+      throw new Error(`Failed to discover repos in ${source}: ${message}`);
+    }
+
+    for (const url of discovered) {
+      const key = getRepoKey(url);
+      if (explicitRepos.has(key) && !discoveredSettings.has(key)) {
+        discoveredSettings.set(key, rest);
+      }
+    }
+
+    const gitUrls = discovered.filter((url) => {
+      const key = getRepoKey(url);
+      if (explicitRepos.has(key) || discoveredRepos.has(key)) return false;
+      discoveredRepos.add(key);
+      return true;
+    });
+    repos.push({ ...rest, git: gitUrls });
+  }
+
+  return {
+    ...raw,
+    repos: repos.flatMap((repo) => {
+      const keys = explicitKeys.get(repo);
+      return keys
+        ? applyDiscoveredSettings(repo, keys, discoveredSettings)
+        : [repo];
+    }),
+  };
+}
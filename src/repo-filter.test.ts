@@ -0,0 +1,110 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  createRepoFilter,
+  addFilterExpression,
+  filterRepos,
+  isFilterEmpty,
+  describeFilter,
+} from "./repo-filter.js";
+import type { RepoConfig } from "./config.js";
+
+const repos: RepoConfig[] = [
+  {
+    git: "git@github.com:my-org/web-app.git",
+    files: [],
+    tags: ["frontend", "tier1"],
+  },
+  {
+    git: "https://github.com/my-org/api.git",
+    files: [],
+    tags: ["backend", "tier1"],
+  },
+  {
+    git: "git@ssh.dev.azure.com:v3/my-org/platform/pipeline",
+    files: [],
+  },
+];
+
+function gitUrls(result: RepoConfig[]): string[] {
+  return result.map((r) => r.git);
+}
+
+describe("repo filter", () => {
+  describe("filterRepos", () => {
+    test("empty filter selects every repo", () => {
+      const filter = createRepoFilter();
+      assert.equal(isFilterEmpty(filter), true);
+      assert.deepEqual(filterRepos(repos, filter), repos);
+    });
+
+    test("selects repos with any of the tags", () => {
+      const filter = { tags: ["frontend", "backend"], repos: [] };
+      assert.deepEqual(gitUrls(filterRepos(repos, filter)), [
+        repos[0].git,
+        repos[1].git,
+      ]);
+    });
+
+    test("repos without tags never match a tag filter", () => {
+      const filter = { tags: ["tier1"], repos: [] };
+      assert.equal(filterRepos(repos, filter).length, 2);
+    });
+
+    test("matches repo globs against the display name", () => {
+      const filter = { tags: [], repos: ["my-org/web-*"] };
+      assert.deepEqual(gitUrls(filterRepos(repos, filter)), [repos[0].git]);
+    });
+
+    test("matches Azure DevOps display names", () => {
+      const filter = { tags: [], repos: ["my-org/platform/*"] };
+      assert.deepEqual(gitUrls(filterRepos(repos, filter)), [repos[2].git]);
+    });
+
+    test("matches repo globs against the git URL", () => {
+      const filter = { tags: [], repos: ["https://github.com/**"] };
+      assert.deepEqual(gitUrls(filterRepos(repos, filter)), [repos[1].git]);
+    });
+
+    test("requires both tag and repo criteria to match", () => {
+      const filter = { tags: ["tier1"], repos: ["my-org/api"] };
+      assert.deepEqual(gitUrls(filterRepos(repos, filter)), [repos[1].git]);
+    });
+  });
+
+  describe("addFilterExpression", () => {
+    test("parses tag and repo terms", () => {
+      const filter = addFilterExpression(
+        createRepoFilter(),
+        "tag:frontend, repo:my-org/*,tag:tier1",
+      );
+      assert.deepEqual(filter, {
+        tags: ["frontend", "tier1"],
+        repos: ["my-org/*"],
+      });
+    });
+
+    test("throws on unprefixed terms", () => {
+      assert.throws(
+        () => addFilterExpression(createRepoFilter(), "frontend"),
+        /Invalid filter term 'frontend': expected tag:<name> or repo:<glob>/,
+      );
+    });
+
+    test("throws on empty values", () => {
+      assert.throws(
+        () => addFilterExpression(createRepoFilter(), "tag:"),
+        /Invalid filter term 'tag:'/,
+      );
+    });
+  });
+
+  describe("describeFilter", () => {
+    test("lists tags and repo globs", () => {
+      assert.equal(
+        describeFilter({ tags: ["a", "b"], repos: ["org/*"] }),
+        "tags: a, b; repos: org/*",
+      );
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import type { RepoConfig } from "./config.js";
+import { parseGitUrl, getRepoDisplayName } from "./repo-detector.js";
+import { matchesGlob } from "./glob-utils.js";
+
+/**
+ * Selects a subset of repos to process.
+ * A repo is selected when it has any of the tags (if tags are given)
+ * and matches any of the repo globs (if repo globs are given).
+ */
+export interface RepoFilter {
+  tags: string[];
+  repos: string[];
+}
+
+/**
+ * Creates an empty filter that selects every repo.
+ */
+export function createRepoFilter(): RepoFilter {
+  return { tags: [], repos: [] };
+}
+
+/**
+ * Checks if a filter has no criteria (selects every repo).
+ */
+export function isFilterEmpty(filter: RepoFilter): boolean {
+  return filter.tags.length === 0 && filter.repos.length === 0;
+}
+
+/**
+ * Adds the terms of a filter expression to a filter.
+ * Expression syntax: comma-separated `tag:<name>` and `repo:<glob>` terms,
+ * e.g. `tag:frontend,repo:my-org/web-*`.
+ * @throws Error if a term is not prefixed with tag: or repo:
+ */
+export function addFilterExpression(
+  filter: RepoFilter,
+  expression: string,
+): RepoFilter {
+  for (const rawTerm of expression.split(",")) {
+    const term = rawTerm.trim();
+    if (term === "") continue;
+
+    const separator = term.indexOf(":");
+    const kind = separator === -1 ? "" : term.slice(0, separator);
+    const value = term.slice(separator + 1).trim();
+
+    if (kind === "tag" && value !== "") {
+      filter.tags.push(value);
+    } else if (kind === "repo" && value !== "") {
+      filter.repos.push(value);
+    } else {
+      throw new Error(
+        `Invalid filter term '${term}': expected tag:<name> or repo:<glob>`,
+      );
+    }
+  }
+  return filter;
+}
+
+/**
+ * Checks if a repo matches any of the repo globs.
+ * Globs are matched against the display name (owner/repo or
+ * organization/project/repo) and the git URL.
+ */
+function matchesRepoGlobs(repo: RepoConfig, globs: string[]): boolean {
+  const candidates = [repo.git];
+  try {
+    candidates.push(getRepoDisplayName(parseGitUrl(repo.git)));
+  } catch {
+    // Unrecognized URL - match against the git URL only
+  }
+  return globs.some((glob) =>
+    candidates.some((candidate) => matchesGlob(candidate, glob)),
+  );
+}
+
+/**
+ * Returns the repos selected by a filter, preserving config order.
+ */
+export function filterRepos(
+  repos: RepoConfig[],
+  filter: RepoFilter,
+): RepoConfig[] {
+  return repos.filter((repo) => {
+    if (
+      filter.tags.length > 0 &&
+      !filter.tags.some((tag) => repo.tags?.includes(tag))
+    ) {
+      return false;
+    }
+    if (filter.repos.length > 0 && !matchesRepoGlobs(repo, filter.repos)) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Formats a filter for display in the startup banner.
+ */
+export function describeFilter(filter: RepoFilter): string {
+  const parts: string[] = [];
+  if (filter.tags.length > 0) {
+    parts.push(`tags: ${filter.tags.join(", ")}`);
+  }
+  if (filter.repos.length > 0) {
+    parts.push(`repos: ${filter.repos.join(", ")}`);
+  }
+  return parts.join("; ");
+}
@@ -4,7 +4,7 @@ import { mkdirSync, rmSync, writeFileSync, readdirSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import { RepositoryProcessor, GitOpsFactory } from "./repository-processor.js";
-import { RepoConfig } from "./config.js";
+import { RepoConfig, FileContent } from "./config.js";
 import { GitHubRepoInfo } from "./repo-detector.js";
 import { GitOps, GitOpsOptions } from "./git-ops.js";
 import { ILogger } from "./logger.js";
@@ -252,4 +252,354 @@ describe("RepositoryProcessor", () => {
       assert.notEqual(result.skipped, true, "Should not have skipped=true");
     });
   });
+
+  class RecordingGitOps extends GitOps {
+    checkedPaths: string[] = [];
+    checkedContents: string[] = [];
+    commitMessage: string | null = null;
+    // Directories present in the mock clone
+    repoDirs: string[] = [];
+    // Files present in the mock clone, by path
+    repoFiles: Record<string, string> = {};
+
+    private get dir(): string {
+      return (this as unknown as { workDir: string }).workDir;
+    }
+
+    override cleanWorkspace(): void {
+      mkdirSync(this.dir, { recursive: true });
+    }
+    override async clone(_gitUrl: string): Promise<void> {
+      for (const repoDir of this.repoDirs) {
+        mkdirSync(join(this.dir, repoDir), { recursive: true });
+      }
+      for (const [path, text] of Object.entries(this.repoFiles)) {
+        writeFileSync(join(this.dir, path), text, "utf-8");
+      }
+    }
+    override async getDefaultBranch(): Promise<{
+      branch: string;
+      method: string;
+    }> {
+      return { branch: "main", method: "mock" };
+    }
+    override async createBranch(_branchName: string): Promise<void> {}
+    override wouldChange(fileName: string, content: string): boolean {
+      this.checkedPaths.push(fileName);
+      this.checkedContents.push(content);
+      return true;
+    }
+    override async commit(message: string): Promise<void> {
+      this.commitMessage = message;
+    }
+    override async push(_branchName: string): Promise<void> {}
+  }
+
+  describe("target paths", () => {
+    test("uses the target path for files, commit message and PR title", async () => {
+      let gitOps: RecordingGitOps | null = null;
+      const factory: GitOpsFactory = (opts) => {
+        gitOps = new RecordingGitOps(opts);
+        return gitOps;
+      };
+      const processor = new RepositoryProcessor(factory, { info() {} });
+
+      const result = await processor.process(
+        {
+          git: "git@github.com:test/repo.git",
+          files: [
+            {
+              fileName: ".prettierrc.json",
+              path: "config/.prettierrc.json",
+              content: { semi: false },
+            },
+          ],
+        },
+        mockRepoInfo,
+        {
+          branchName: "chore/sync-prettierrc",
+          workDir: join(testDir, `target-path-${Date.now()}`),
+          dryRun: true,
+        },
+      );
+
+      const recorded = gitOps as unknown as RecordingGitOps;
+      assert.deepEqual(recorded.checkedPaths, ["config/.prettierrc.json"]);
+      assert.equal(
+        recorded.commitMessage,
+        "chore: sync config/.prettierrc.json",
+      );
+      assert.equal(
+        result.message,
+        '[DRY RUN] Would create PR: "chore: sync config/.prettierrc.json"',
+      );
+    });
+
+    test("writes files with targets into every matching directory", async () => {
+      let gitOps: RecordingGitOps | null = null;
+      const factory: GitOpsFactory = (opts) => {
+        gitOps = new RecordingGitOps(opts);
+        gitOps.repoDirs = ["packages/web", "packages/api", "docs"];
+        return gitOps;
+      };
+      const logs: string[] = [];
+      const processor = new RepositoryProcessor(factory, {
+        info: (message) => logs.push(message),
+      });
+
+      const result = await processor.process(
+        {
+          git: "git@github.com:test/repo.git",
+          files: [
+            {
+              fileName: "tsconfig.json",
+              targets: ["packages/*/"],
+              content: { name: "${target.name}", dir: "${target.dir}" },
+            },
+            {
+              fileName: ".eslintrc.json",
+              targets: ["libs/*/"],
+              content: {},
+            },
+          ],
+        },
+        mockRepoInfo,
+        {
+          branchName: "chore/sync-tsconfig",
+          workDir: join(testDir, `targets-${Date.now()}`),
+          dryRun: true,
+        },
+      );
+
+      const recorded = gitOps as unknown as RecordingGitOps;
+      assert.deepEqual(recorded.checkedPaths, [
+        "packages/api/tsconfig.json",
+        "packages/web/tsconfig.json",
+      ]);
+      assert.deepEqual(
+        recorded.checkedContents.map((c) => JSON.parse(c)),
+        [
+          { name: "api", dir: "packages/api" },
+          { name: "web", dir: "packages/web" },
+        ],
+      );
+      assert.equal(
+        recorded.commitMessage,
+        "chore: sync packages/api/tsconfig.json, packages/web/tsconfig.json",
+      );
+      assert.ok(
+        logs.includes("No directories match targets for .eslintrc.json"),
+      );
+      assert.equal(result.success, true);
+    });
+  });
+
+  describe("merge mode", () => {
+    const mergeFile: FileContent = {
+      fileName: "package.json",
+      mode: "merge",
+      content: { engines: { node: ">=20" } },
+    };
+
+    test("merges managed content into the existing file", async () => {
+      let gitOps: RecordingGitOps | null = null;
+      const factory: GitOpsFactory = (opts) => {
+        gitOps = new RecordingGitOps(opts);
+        gitOps.repoFiles = {
+          "package.json": JSON.stringify({
+            name: "app",
+            scripts: { build: "tsc" },
+            engines: { node: ">=18" },
+          }),
+        };
+        return gitOps;
+      };
+      const logs: string[] = [];
+      const processor = new RepositoryProcessor(factory, {
+        info: (message) => logs.push(message),
+      });
+
+      await processor.process(
+        { git: "git@github.com:test/repo.git", files: [mergeFile] },
+        mockRepoInfo,
+        {
+          branchName: "chore/sync-package",
+          workDir: join(testDir, `merge-${Date.now()}`),
+          dryRun: true,
+        },
+      );
+
+      const recorded = gitOps as unknown as RecordingGitOps;
+      assert.deepEqual(JSON.parse(recorded.checkedContents[0]), {
+        name: "app",
+        scripts: { build: "tsc" },
+        engines: { node: ">=20" },
+      });
+      assert.ok(logs.includes("Merging into package.json..."));
+    });
+
+    test("keeps $schema in the existing file", async () => {
+      let gitOps: RecordingGitOps | null = null;
+      const factory: GitOpsFactory = (opts) => {
+        gitOps = new RecordingGitOps(opts);
+        gitOps.repoFiles = {
+          "renovate.json": JSON.stringify({
+            $schema: "https://docs.renovatebot.com/renovate-schema.json",
+            extends: ["config:base"],
+            labels: ["deps"],
+          }),
+        };
+        return gitOps;
+      };
+      const processor = new RepositoryProcessor(factory, { info() {} });
+
+      await processor.process(
+        {
+          git: "git@github.com:test/repo.git",
+          files: [
+            {
+              fileName: "renovate.json",
+              mode: "merge",
+              content: { extends: ["config:recommended"] },
+            },
+          ],
+        },
+        mockRepoInfo,
+        {
+          branchName: "chore/sync-renovate",
+          workDir: join(testDir, `merge-schema-${Date.now()}`),
+          dryRun: true,
+        },
+      );
+
+      const recorded = gitOps as unknown as RecordingGitOps;
+      assert.deepEqual(JSON.parse(recorded.checkedContents[0]), {
+        $schema: "https://docs.renovatebot.com/renovate-schema.json",
+        extends: ["config:recommended"],
+        labels: ["deps"],
+      });
+    });
+
+    test("writes the managed content when the file does not exist", async () => {
+      let gitOps: RecordingGitOps | null = null;
+      const factory: GitOpsFactory = (opts) => {
+        gitOps = new RecordingGitOps(opts);
+        return gitOps;
+      };
+      const processor = new RepositoryProcessor(factory, { info() {} });
+
+      await processor.process(
+        { git: "git@github.com:test/repo.git", files: [mergeFile] },
+        mockRepoInfo,
+        {
+          branchName: "chore/sync-package",
+          workDir: join(testDir, `merge-new-${Date.now()}`),
+          dryRun: true,
+        },
+      );
+
+      const recorded = gitOps as unknown as RecordingGitOps;
+      assert.deepEqual(JSON.parse(recorded.checkedContents[0]), {
+        engines: { node: ">=20" },
+      });
+    });
+  });
+
+  describe("managed paths", () => {
+    const managedFile: FileContent = {
+      fileName: "tsconfig.json",
+      managedPaths: ["compilerOptions.strict"],
+      content: { compilerOptions: { strict: true, target: "es2022" } },
+    };
+
+    test("updates only managed paths in the existing file", async () => {
+      let gitOps: RecordingGitOps | null = null;
+      const factory: GitOpsFactory = (opts) => {
+        gitOps = new RecordingGitOps(opts);
+        gitOps.repoFiles = {
+          "tsconfig.json": JSON.stringify({
+            compilerOptions: { target: "es2020", strict: false },
+          }),
+        };
+        return gitOps;
+      };
+      const logs: string[] = [];
+      const processor = new RepositoryProcessor(factory, {
+        info: (message) => logs.push(message),
+      });
+
+      await processor.process(
+        { git: "git@github.com:test/repo.git", files: [managedFile] },
+        mockRepoInfo,
+        {
+          branchName: "chore/sync-tsconfig",
+          workDir: join(testDir, `managed-${Date.now()}`),
+          dryRun: true,
+        },
+      );
+
+      const recorded = gitOps as unknown as RecordingGitOps;
+      assert.deepEqual(JSON.parse(recorded.checkedContents[0]), {
+        compilerOptions: { target: "es2020", strict: true },
+      });
+      assert.ok(logs.includes("Updating managed paths in tsconfig.json..."));
+    });
+
+    test("writes only managed paths when the file does not exist", async () => {
+      let gitOps: RecordingGitOps | null = null;
+      const factory: GitOpsFactory = (opts) => {
+        gitOps = new RecordingGitOps(opts);
+        return gitOps;
+      };
+      const processor = new RepositoryProcessor(factory, { info() {} });
+
+      await processor.process(
+        { git: "git@github.com:test/repo.git", files: [managedFile] },
+        mockRepoInfo,
+        {
+          branchName: "chore/sync-tsconfig",
+          workDir: join(testDir, `managed-new-${Date.now()}`),
+          dryRun: true,
+        },
+      );
+
+      const recorded = gitOps as unknown as RecordingGitOps;
+      assert.deepEqual(JSON.parse(recorded.checkedContents[0]), {
+        compilerOptions: { strict: true },
+      });
+    });
+
+    test("leaves files whose managed paths already match untouched", async () => {
+      let gitOps: RecordingGitOps | null = null;
+      const factory: GitOpsFactory = (opts) => {
+        gitOps = new RecordingGitOps(opts);
+        // No trailing newline, which a rewrite would add
+        gitOps.repoFiles = {
+          "tsconfig.json": JSON.stringify({
+            compilerOptions: { target: "es2020", strict: true },
+          }),
+        };
+        return gitOps;
+      };
+      const logs: string[] = [];
+      const processor = new RepositoryProcessor(factory, {
+        info: (message) => logs.push(message),
+      });
+
+      const result = await processor.process(
+        { git: "git@github.com:test/repo.git", files: [managedFile] },
+        mockRepoInfo,
+        {
+          branchName: "chore/sync-tsconfig",
+          workDir: join(testDir, `managed-unchanged-${Date.now()}`),
+          dryRun: true,
+        },
+      );
+
+      const recorded = gitOps as unknown as RecordingGitOps;
+      assert.deepEqual(recorded.checkedPaths, []);
+      assert.ok(logs.includes("Skipping tsconfig.json (already up to date)"));
+      assert.equal(result.message, "No changes detected");
+    });
+  });
 });
@@ -1,10 +1,16 @@
 import { existsSync } from "node:fs";
-import { join } from "node:path";
+import { join, posix } from "node:path";
 import { RepoConfig, FileContent, convertContentToString } from "./config.js";
 import { RepoInfo, getRepoDisplayName } from "./repo-detector.js";
 import { GitOps, GitOpsOptions } from "./git-ops.js";
-import { createPR, PRResult, FileAction } from "./pr-creator.js";
+import { createPR, PRResult, FileAction, PathChange } from "./pr-creator.js";
 import { logger, ILogger } from "./logger.js";
+import { findTargetDirs, renderTargetFile } from "./targets.js";
+import {
+  mergeIntoExistingFile,
+  pickManagedPaths,
+  updateManagedPaths,
+} from "./existing-file.js";
 
 export interface ProcessorOptions {
   branchName: string;
@@ -28,6 +34,14 @@ export interface ProcessorResult {
   skipped?: boolean;
 }
 
+/**
+ * A file to write at a concrete path in the clone.
+ */
+interface PlannedFile {
+  file: FileContent;
+  targetPath: string;
+}
+
 export class RepositoryProcessor {
   private gitOps: GitOps | null = null;
   private readonly gitOpsFactory: GitOpsFactory;
@@ -75,41 +89,54 @@ export class RepositoryProcessor {
 
       // Step 5: Write all config files and track changes
       const changedFiles: FileAction[] = [];
+      // Managed path changes by target path, for the PR body
+      const pathChanges = new Map<string, PathChange[]>();
+      // Existing files left as-is, so they are not rewritten or reported
+      const unchangedFiles = new Set<string>();
+      const plannedFiles = repoConfig.files.flatMap((file) =>
+        this.planFile(file, workDir),
+      );
 
-      for (const file of repoConfig.files) {
-        const filePath = join(workDir, file.fileName);
+      for (const { file, targetPath } of plannedFiles) {
+        const filePath = join(workDir, targetPath);
         const fileExists = existsSync(filePath);
 
         // Handle createOnly - skip if file already exists
         if (file.createOnly && fileExists) {
-          this.log.info(
-            `Skipping ${file.fileName} (createOnly: already exists)`,
-          );
-          changedFiles.push({ fileName: file.fileName, action: "skip" });
+          this.log.info(`Skipping ${targetPath} (createOnly: already exists)`);
+          changedFiles.push({ fileName: targetPath, action: "skip" });
           continue;
         }
 
-        this.log.info(`Writing ${file.fileName}...`);
-        const fileContent = convertContentToString(
-          file.content,
-          file.fileName,
-          {
-            header: file.header,
-            schemaUrl: file.schemaUrl,
-          },
+        const rendered = this.renderFile(
+          file,
+          filePath,
+          targetPath,
+          fileExists,
         );
+        if (rendered === null) {
+          this.log.info(`Skipping ${targetPath} (already up to date)`);
+          unchangedFiles.add(targetPath);
+          continue;
+        }
+        const { text: fileContent, changes } = rendered;
+        if (changes && changes.length > 0) {
+          pathChanges.set(targetPath, changes);
+        }
 
         // Determine action type (create vs update)
         const action: "create" | "update" = fileExists ? "update" : "create";
 
         if (dryRun) {
           // In dry-run, check if file would change without writing
-          if (this.gitOps.wouldChange(file.fileName, fileContent)) {
-            changedFiles.push({ fileName: file.fileName, action });
+          if (this.gitOps.wouldChange(targetPath, fileContent)) {
+            changedFiles.push(
+              this.toFileAction(targetPath, action, pathChanges),
+            );
           }
         } else {
           // Write the file
-          this.gitOps.writeFile(file.fileName, fileContent);
+          this.gitOps.writeFile(targetPath, fileContent);
         }
       }
 
@@ -128,15 +155,20 @@ export class RepositoryProcessor {
               .filter((f) => f.action === "skip")
               .map((f) => f.fileName),
           );
-          for (const file of repoConfig.files) {
-            if (skippedFiles.has(file.fileName)) {
+          for (const { targetPath } of plannedFiles) {
+            if (skippedFiles.has(targetPath)) {
               continue; // Already tracked as skipped
             }
-            const filePath = join(workDir, file.fileName);
+            if (unchangedFiles.has(targetPath)) {
+              continue;
+            }
+            const filePath = join(workDir, targetPath);
             const action: "create" | "update" = existsSync(filePath)
               ? "update"
               : "create";
-            changedFiles.push({ fileName: file.fileName, action });
+            changedFiles.push(
+              this.toFileAction(targetPath, action, pathChanges),
+            );
           }
         }
       }
@@ -189,6 +221,78 @@ export class RepositoryProcessor {
     }
   }
 
+  /**
+   * Resolves where a file is written: its per-repo path or file name, or
+   * one copy per directory matching its targets.
+   */
+  private planFile(file: FileContent, workDir: string): PlannedFile[] {
+    if (!file.targets) {
+      return [{ file, targetPath: file.path ?? file.fileName }];
+    }
+
+    const dirs = findTargetDirs(file.targets, workDir);
+    if (dirs.length === 0) {
+      this.log.info(`No directories match targets for ${file.fileName}`);
+    }
+
+    return dirs.map((dir) => ({
+      file: renderTargetFile(file, dir),
+      targetPath: posix.join(dir, file.fileName),
+    }));
+  }
+
+  /**
+   * Renders the text to write for a file. managedPaths rewrites only those
+   * paths in an existing file (a new file gets just those paths), and
+   * mode: merge keeps the repo's own keys in an existing file. Returns
+   * null if either leaves the existing file unchanged.
+   */
+  private renderFile(
+    file: FileContent,
+    filePath: string,
+    targetPath: string,
+    fileExists: boolean,
+  ): { text: string; changes?: PathChange[] } | null {
+    if (file.managedPaths && fileExists) {
+      this.log.info(`Updating managed paths in ${targetPath}...`);
+      const result = updateManagedPaths(file, filePath, targetPath);
+      return result.changes.length > 0 ? result : null;
+    }
+
+    let content = file.content;
+    if (file.managedPaths) {
+      this.log.info(`Writing ${targetPath}...`);
+      content = pickManagedPaths(file);
+    } else if (file.mode === "merge" && fileExists) {
+      this.log.info(`Merging into ${targetPath}...`);
+      const text = mergeIntoExistingFile(file, filePath, targetPath);
+      return text === undefined ? null : { text };
+    } else {
+      this.log.info(`Writing ${targetPath}...`);
+    }
+
+    return {
+      text: convertContentToString(content, file.fileName, {
+        header: file.header,
+        schemaUrl: file.schemaUrl,
+      }),
+    };
+  }
+
+  /**
+   * Builds the PR entry for a file, with its managed path changes if any.
+   */
+  private toFileAction(
+    fileName: string,
+    action: "create" | "update",
+    pathChanges: Map<string, PathChange[]>,
+  ): FileAction {
+    const changes = pathChanges.get(fileName);
+    return changes
+      ? { fileName, action, pathChanges: changes }
+      : { fileName, action };
+  }
+
   /**
    * Format commit message based on files changed (excludes skipped files)
    */
@@ -0,0 +1,199 @@
+import { test, describe, beforeEach, afterEach } from "node:test";
+import { strict as assert } from "node:assert";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { resolveSecretSources } from "./secret-sources.js";
+import { CommandExecutor } from "./command-executor.js";
+import { clearSecrets, redactSecrets } from "./redact.js";
+import type { RawConfig } from "./config.js";
+
+// Mock executor echoing a canned response per command
+function createMockExecutor(responses: Record<string, string | Error>) {
+  const calls: { command: string; cwd: string }[] = [];
+  const executor: CommandExecutor = {
+    async exec(command: string, cwd: string): Promise<string> {
+      calls.push({ command, cwd });
+      const response = responses[command];
+      if (response instanceof Error) {
+        throw response;
+      }
+      return response ?? "";
+    },
+  };
+  return { executor, calls };
+}
+
+describe("resolveSecretSources", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `secret-sources-test-${Date.now()}`);
+    mkdirSync(join(dir, "secrets"), { recursive: true });
+    writeFileSync(join(dir, "secrets", "npm_token"), "npm-secret-123\n");
+    clearSecrets();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    clearSecrets();
+  });
+
+  test("returns no secrets when none are used", async () => {
+    const { executor, calls } = createMockExecutor({});
+    const raw: RawConfig = {
+      files: { "config.json": { content: { key: "${VAR}" } } },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    const secrets = await resolveSecretSources(raw, { executor, cwd: dir });
+    assert.equal(secrets.size, 0);
+    assert.equal(calls.length, 0);
+  });
+
+  test("reads file secrets relative to cwd, dropping the trailing newline", async () => {
+    const absolute = join(dir, "secrets", "npm_token");
+    const raw: RawConfig = {
+      secretSources: ["file"],
+      files: {
+        ".npmrc": {
+          content: ["//registry/:_authToken=${file:secrets/npm_token}"],
+        },
+        "config.json": { content: { token: `\${file:${absolute}}` } },
+      },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    const secrets = await resolveSecretSources(raw, { cwd: dir });
+    assert.deepEqual(
+      [...secrets],
+      [
+        ["file:secrets/npm_token", "npm-secret-123"],
+        [`file:${absolute}`, "npm-secret-123"],
+      ],
+    );
+  });
+
+  test("runs each distinct command once", async () => {
+    const { executor, calls } = createMockExecutor({
+      "pass show npm": "cmd-secret-456",
+    });
+    const raw: RawConfig = {
+      secretSources: ["cmd"],
+      files: {
+        "a.json": { content: { token: "${cmd:pass show npm}" } },
+        "b.json": { content: { token: "${cmd:pass show npm}" } },
+      },
+      profiles: {
+        lib: {
+          files: { "a.json": { content: { t: "${cmd:pass show npm}" } } },
+        },
+      },
+      repos: [
+        {
+          git: "git@github.com:org/repo.git",
+          files: { "b.json": { header: "${cmd:pass show npm}" } },
+        },
+      ],
+    };
+
+    const secrets = await resolveSecretSources(raw, { executor, cwd: dir });
+    assert.equal(secrets.get("cmd:pass show npm"), "cmd-secret-456");
+    assert.deepEqual(calls, [{ command: "pass show npm", cwd: dir }]);
+  });
+
+  test("resolves placeholders in git URLs", async () => {
+    const { executor } = createMockExecutor({ "gh auth token": "gho_abc" });
+    const raw: RawConfig = {
+      secretSources: ["cmd"],
+      files: { "config.json": { content: {} } },
+      repos: [
+        {
+          git: "https://x-access-token:${cmd:gh auth token}@github.com/o/r.git",
+        },
+      ],
+    };
+
+    const secrets = await resolveSecretSources(raw, { executor, cwd: dir });
+    assert.equal(secrets.get("cmd:gh auth token"), "gho_abc");
+  });
+
+  test("skips escaped placeholders and files with interpolate: false", async () => {
+    const { executor, calls } = createMockExecutor({});
+    const raw: RawConfig = {
+      files: {
+        "config.json": { content: { literal: "$${cmd:whoami}" } },
+        "ci.yaml": {
+          content: { run: "${cmd:whoami}" },
+          interpolate: false,
+        },
+      },
+      repos: [
+        {
+          git: "git@github.com:org/repo.git",
+          files: { "ci.yaml": { content: { other: "${file:/etc/passwd}" } } },
+        },
+      ],
+    };
+
+    const secrets = await resolveSecretSources(raw, { executor, cwd: dir });
+    assert.equal(secrets.size, 0);
+    assert.equal(calls.length, 0);
+  });
+
+  test("registers resolved values for redaction", async () => {
+    const { executor } = createMockExecutor({ "get-token": "tok-789" });
+    const raw: RawConfig = {
+      secretSources: ["cmd"],
+      files: { "config.json": { content: { token: "${cmd:get-token}" } } },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    await resolveSecretSources(raw, { executor, cwd: dir });
+    assert.equal(redactSecrets("token is tok-789"), "token is ***");
+  });
+
+  test("throws when the source is not enabled", async () => {
+    const { executor, calls } = createMockExecutor({});
+    const raw: RawConfig = {
+      secretSources: ["file"],
+      files: { "config.json": { content: { token: "${cmd:get-token}" } } },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    await assert.rejects(
+      resolveSecretSources(raw, { executor, cwd: dir }),
+      /Config uses \$\{cmd:\.\.\.\} placeholders but the 'cmd' secret source is not enabled; add it to secretSources/,
+    );
+    assert.equal(calls.length, 0);
+  });
+
+  test("throws for a missing secret file", async () => {
+    const raw: RawConfig = {
+      secretSources: ["file"],
+      files: { "config.json": { content: { token: "${file:missing}" } } },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    await assert.rejects(
+      resolveSecretSources(raw, { cwd: dir }),
+      /Secret file not found: .*missing/,
+    );
+  });
+
+  test("throws when a command fails", async () => {
+    const { executor } = createMockExecutor({
+      "pass show npm": new Error("pass: npm is not in the password store"),
+    });
+    const raw: RawConfig = {
+      secretSources: ["cmd"],
+      files: { "config.json": { content: { token: "${cmd:pass show npm}" } } },
+      repos: [{ git: "git@github.com:org/repo.git" }],
+    };
+
+    await assert.rejects(
+      resolveSecretSources(raw, { executor, cwd: dir }),
+      /Secret command 'pass show npm' failed: pass: npm is not in the password store/,
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { RawConfig } from "./config.js";
+import { findSecretPlaceholders, type SecretSource } from "./env.js";
+import { CommandExecutor, defaultExecutor } from "./command-executor.js";
+import { registerSecret } from "./redact.js";
+
+export interface SecretSourceOptions {
+  /** Executor for ${cmd:...} commands (for testing) */
+  executor?: CommandExecutor;
+  /** Directory for relative ${file:...} paths and ${cmd:...} commands */
+  cwd?: string;
+}
+
+/**
+ * Collects the secret placeholders the config will interpolate: in git
+ * URLs and in file definitions, profile overlays and repo overrides of
+ * files that don't set `interpolate: false`.
+ */
+function collectSecretPlaceholders(raw: RawConfig): string[] {
+  const literalFiles = new Set(
+    Object.entries(raw.files)
+      .filter(([, fileConfig]) => fileConfig.interpolate === false)
+      .map(([fileName]) => fileName),
+  );
+  const interpolated = (files: Record<string, unknown> | undefined) =>
+    Object.entries(files ?? {})
+      .filter(([fileName]) => !literalFiles.has(fileName))
+      .map(([, fileConfig]) => fileConfig);
+
+  return findSecretPlaceholders([
+    interpolated(raw.files),
+    Object.values(raw.profiles ?? {}).map((profile) =>
+      interpolated(profile.files),
+    ),
+    raw.repos.map((repo) => [repo.git, interpolated(repo.files)]),
+  ]);
+}
+
+/**
+ * Resolves a single secret placeholder.
+ */
+async function resolveSecretSource(
+  source: SecretSource,
+  ref: string,
+  options: Required<SecretSourceOptions>,
+): Promise<string> {
+  if (source === "file") {
+    const filePath = resolve(options.cwd, ref);
+    if (!existsSync(filePath)) {
+      throw new Error(`Secret file not found: ${filePath}`);
+    }
+    // Drop the trailing newline most secret files end with
+    return readFileSync(filePath, "utf-8").replace(/\r?\n$/, "");
+  }
+
+  try {
+    return await options.executor.exec(ref, options.cwd);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Secret command '${ref}' failed: ${message}`);
+  }
+}
+
+/**
+ * Resolves the ${file:...} and ${cmd:...} placeholders used by a config.
+ * Each distinct placeholder is resolved once per run, and every value is
+ * registered for redaction from log output. Sources must be enabled with
+ * the root-level `secretSources` setting.
+ *
+ * @param raw - The validated raw config
+ * @param options - Executor and working directory
+ * @returns Resolved values keyed by "source:reference", for interpolation
+ */
+export async function resolveSecretSources(
+  raw: RawConfig,
+  options: SecretSourceOptions = {},
+): Promise<Map<string, string>> {
+  const resolved: Required<SecretSourceOptions> = {
+    executor: options.executor ?? defaultExecutor,
+    cwd: options.cwd ?? process.cwd(),
+  };
+  const enabled = raw.secretSources ?? [];
+  const secrets = new Map<string, string>();
+
+  for (const key of collectSecretPlaceholders(raw)) {
+    const separator = key.indexOf(":");
+    const source = key.slice(0, separator) as SecretSource;
+    const ref = key.slice(separator + 1);
+
+    if (!enabled.includes(source)) {
+      throw new Error(
+        `Config uses \${${source}:...} placeholders but the '${source}' secret source is not enabled; add it to secretSources`,
+      );
+    }
+
+    const value = await resolveSecretSource(source, ref, resolved);
+    registerSecret(value);
+    secrets.set(key, value);
+  }
+
+  return secrets;
+}
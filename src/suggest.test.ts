@@ -0,0 +1,49 @@
+import { test, describe } from "node:test";
+import { strict as assert } from "node:assert";
+import { editDistance, findClosestMatch, formatUnknownKey } from "./suggest.js";
+
+describe("editDistance", () => {
+  test("returns 0 for equal strings", () => {
+    assert.equal(editDistance("files", "files"), 0);
+  });
+
+  test("counts insertions, deletions and substitutions", () => {
+    assert.equal(editDistance("mergStrategy", "mergeStrategy"), 1);
+    assert.equal(editDistance("repos", "repo"), 1);
+    assert.equal(editDistance("kitten", "sitting"), 3);
+    assert.equal(editDistance("", "abc"), 3);
+  });
+});
+
+describe("findClosestMatch", () => {
+  const keys = ["content", "contentFile", "mergeStrategy", "createOnly"];
+
+  test("finds the closest key", () => {
+    assert.equal(findClosestMatch("mergStrategy", keys), "mergeStrategy");
+    assert.equal(findClosestMatch("contnet", keys), "content");
+  });
+
+  test("ignores case differences", () => {
+    assert.equal(findClosestMatch("createonly", keys), "createOnly");
+  });
+
+  test("returns undefined when nothing is close", () => {
+    assert.equal(findClosestMatch("somethingElse", keys), undefined);
+  });
+});
+
+describe("formatUnknownKey", () => {
+  test("includes a suggestion when one is close", () => {
+    assert.equal(
+      formatUnknownKey("repo", ["files", "repos"]),
+      "unknown key 'repo' (did you mean 'repos'?)",
+    );
+  });
+
+  test("omits the suggestion when nothing is close", () => {
+    assert.equal(
+      formatUnknownKey("xyz123456", ["files", "repos"]),
+      "unknown key 'xyz123456'",
+    );
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Computes the Levenshtein edit distance between two strings.
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Finds the candidate closest to value by case-insensitive edit distance.
+ * Returns undefined if no candidate is close enough to be a likely typo.
+ */
+export function findClosestMatch(
+  value: string,
+  candidates: string[],
+): string | undefined {
+  const maxDistance = Math.max(2, Math.floor(value.length / 3));
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(value.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return bestDistance <= maxDistance ? best : undefined;
+}
+
+/**
+ * Formats an unknown key message with a "did you mean" hint when a valid
+ * key is close, e.g. "unknown key 'mergStrategy' (did you mean 'mergeStrategy'?)".
+ */
+export function formatUnknownKey(key: string, validKeys: string[]): string {
+  const suggestion = findClosestMatch(key, validKeys);
+  return suggestion === undefined
+    ? `unknown key '${key}'`
+    : `unknown key '${key}' (did you mean '${suggestion}'?)`;
+}
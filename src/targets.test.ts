@@ -0,0 +1,160 @@
+import { test, describe, beforeEach, afterEach } from "node:test";
+import { strict as assert } from "node:assert";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { findTargetDirs, getTargetVars, renderTargetFile } from "./targets.js";
+import type { ContentValue } from "./config.js";
+
+describe("findTargetDirs", () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = join(tmpdir(), `targets-test-${Date.now()}`);
+    for (const dir of [
+      "packages/web/src",
+      "packages/api",
+      "packages/.cache",
+      "apps/docs",
+    ]) {
+      mkdirSync(join(workDir, dir), { recursive: true });
+    }
+    writeFileSync(join(workDir, "packages/README.md"), "");
+  });
+
+  afterEach(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test("matches directories for a wildcard segment", () => {
+    assert.deepEqual(findTargetDirs(["packages/*/"], workDir), [
+      "packages/api",
+      "packages/web",
+    ]);
+  });
+
+  test("combines patterns without duplicates", () => {
+    assert.deepEqual(
+      findTargetDirs(["packages/*", "apps/*/", "packages/web"], workDir),
+      ["apps/docs", "packages/api", "packages/web"],
+    );
+  });
+
+  test("skips dot-directories unless the segment starts with a dot", () => {
+    assert.deepEqual(findTargetDirs(["packages/.*"], workDir), [
+      "packages/.cache",
+    ]);
+  });
+
+  test("matches nested segments and the ? wildcard", () => {
+    assert.deepEqual(findTargetDirs(["*/w?b/*"], workDir), [
+      "packages/web/src",
+    ]);
+  });
+
+  test("returns nothing for missing directories", () => {
+    assert.deepEqual(findTargetDirs(["libs/*", "packages/none"], workDir), []);
+  });
+
+  test("returns '.' for the repo root", () => {
+    assert.deepEqual(findTargetDirs(["./"], workDir), ["."]);
+  });
+});
+
+describe("getTargetVars", () => {
+  test("returns the directory path and name", () => {
+    assert.deepEqual(getTargetVars("packages/web"), {
+      "target.dir": "packages/web",
+      "target.name": "web",
+    });
+  });
+});
+
+describe("renderTargetFile", () => {
+  const render = (content: ContentValue | null, dir = "packages/web") =>
+    renderTargetFile({ fileName: "file.json", content }, dir).content;
+
+  test("replaces target vars in object content", () => {
+    assert.deepEqual(
+      render({ extends: "../../tsconfig.json", name: "@org/${target.name}" }),
+      { extends: "../../tsconfig.json", name: "@org/web" },
+    );
+  });
+
+  test("replaces target vars in object keys", () => {
+    assert.deepEqual(render({ "${target.name}": { dir: "${target.dir}" } }), {
+      web: { dir: "packages/web" },
+    });
+  });
+
+  test("replaces target vars in text content", () => {
+    assert.deepEqual(render(["# ${target.dir}", "dist/"], "packages/api"), [
+      "# packages/api",
+      "dist/",
+    ]);
+  });
+
+  test("replaces target vars in header and schemaUrl", () => {
+    const file = renderTargetFile(
+      {
+        fileName: "values.yaml",
+        content: {},
+        header: ["Values for ${target.name}"],
+        schemaUrl: "https://example.com/${target.dir}/schema.json",
+      },
+      "charts/api",
+    );
+    assert.deepEqual(file.header, ["Values for api"]);
+    assert.equal(file.schemaUrl, "https://example.com/charts/api/schema.json");
+  });
+
+  test("leaves other placeholders untouched", () => {
+    process.env.TARGETS_TEST_VAR = "from-env";
+    try {
+      assert.equal(render("${TARGETS_TEST_VAR}"), "${TARGETS_TEST_VAR}");
+    } finally {
+      delete process.env.TARGETS_TEST_VAR;
+    }
+  });
+
+  test("unescapes escaped target vars", () => {
+    assert.equal(
+      render("$${target.name} is ${target.name}"),
+      "${target.name} is web",
+    );
+  });
+
+  test("unescapes placeholders with defaults and messages literally", () => {
+    assert.equal(
+      render("echo $${HOME:-/root} $${X:?need X} in ${target.dir}"),
+      "echo ${HOME:-/root} ${X:?need X} in packages/web",
+    );
+    assert.deepEqual(render({ run: "$${VAR:-x}", check: "$${VAR:?msg}" }), {
+      run: "${VAR:-x}",
+      check: "${VAR:?msg}",
+    });
+  });
+
+  test("leaves placeholders other than target vars unresolved", () => {
+    assert.equal(
+      render("${HOME:-/root} ${X:?need X} ${file:/run/secret}"),
+      "${HOME:-/root} ${X:?need X} ${file:/run/secret}",
+    );
+  });
+
+  test("keeps content as-is when interpolation is disabled", () => {
+    const file = renderTargetFile(
+      {
+        fileName: "file.json",
+        content: { name: "${target.name}" },
+        interpolate: false,
+      },
+      "packages/web",
+    );
+    assert.deepEqual(file.content, { name: "${target.name}" });
+  });
+
+  test("returns null content for empty files", () => {
+    assert.equal(render(null), null);
+  });
+});
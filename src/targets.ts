@@ -0,0 +1,122 @@
+import { lstatSync, readdirSync } from "node:fs";
+import { join, posix } from "node:path";
+import type { FileContent } from "./config.js";
+import { isTextContent } from "./config-formatter.js";
+import { interpolateEnvVars, interpolateEnvVarsInText } from "./env.js";
+import { globToRegExp } from "./glob-utils.js";
+
+/**
+ * Per-directory variables available to files with targets.
+ * They are resolved once the target directories are known.
+ */
+export const TARGET_VAR_NAMES = ["target.dir", "target.name"];
+
+function isDirectory(path: string): boolean {
+  try {
+    return lstatSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Expands a single directory pattern (e.g. "packages/*\/") against workDir.
+ * Wildcards only match directories and skip dot-directories unless the
+ * segment itself starts with a dot.
+ */
+function expandPattern(pattern: string, workDir: string): string[] {
+  const segments = pattern.split("/").filter((s) => s !== "" && s !== ".");
+  let dirs = [""];
+
+  for (const segment of segments) {
+    const next: string[] = [];
+
+    for (const dir of dirs) {
+      if (!/[*?]/.test(segment)) {
+        if (isDirectory(join(workDir, dir, segment))) {
+          next.push(posix.join(dir, segment));
+        }
+        continue;
+      }
+
+      const regex = globToRegExp(segment);
+      let entries;
+      try {
+        entries = readdirSync(join(workDir, dir), { withFileTypes: true });
+      } catch {
+        continue;
+      }
+      for (const entry of entries) {
+        if (!entry.isDirectory()) continue;
+        if (entry.name.startsWith(".") && !segment.startsWith(".")) continue;
+        if (regex.test(entry.name)) {
+          next.push(posix.join(dir, entry.name));
+        }
+      }
+    }
+
+    dirs = next;
+  }
+
+  return dirs.map((dir) => dir || ".");
+}
+
+/**
+ * Finds the directories in workDir matching any of the target patterns.
+ * Returns sorted, de-duplicated paths relative to workDir ("." for the root).
+ */
+export function findTargetDirs(patterns: string[], workDir: string): string[] {
+  const dirs = new Set<string>();
+  for (const pattern of patterns) {
+    for (const dir of expandPattern(pattern, workDir)) {
+      dirs.add(dir);
+    }
+  }
+  return [...dirs].sort();
+}
+
+/**
+ * Builds the per-directory variables for a target directory.
+ */
+export function getTargetVars(dir: string): Record<string, string> {
+  return {
+    "target.dir": dir,
+    "target.name": posix.basename(dir),
+  };
+}
+
+/**
+ * Renders a file with targets for one target directory, resolving
+ * ${target.dir} and ${target.name} in its content, header and schemaUrl.
+ * Other placeholders were already resolved when the config was loaded;
+ * escaped ones were kept for this pass, which only drops the escape.
+ */
+export function renderTargetFile(file: FileContent, dir: string): FileContent {
+  if (file.interpolate === false) {
+    return file;
+  }
+
+  const options = {
+    strict: false,
+    vars: getTargetVars(dir),
+    env: {},
+    only: TARGET_VAR_NAMES,
+  };
+  let content = file.content;
+  if (isTextContent(content)) {
+    content = interpolateEnvVarsInText(content, options);
+  } else if (content !== null) {
+    content = interpolateEnvVars(content, options);
+  }
+
+  return {
+    ...file,
+    content,
+    header: file.header
+      ? (interpolateEnvVarsInText(file.header, options) as string[])
+      : undefined,
+    schemaUrl: file.schemaUrl
+      ? (interpolateEnvVarsInText(file.schemaUrl, options) as string)
+      : undefined,
+  };
+}